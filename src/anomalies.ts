@@ -0,0 +1,182 @@
+/**
+ * Flags histogram buckets whose volume or error counts deviate from the
+ * same buckets on previous days.
+ */
+
+import { QueryBuilder, SqlFragment, aliased, raw, sql } from "./queryBuilder.js";
+import { INTERVAL_MS, bucketStarts, bucketedRows } from "./histogram.js";
+import { timeRangeCondition } from "./search.js";
+import { Anomaly, AnomalyOptions, HistogramInterval, HistogramWindow, LogflareSource } from "./types.js";
+import { timestampToMs } from "./utils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BucketCounts {
+  total: number;
+  errors: number;
+}
+
+/**
+ * Matches rows in any of the given [start, end) ranges.
+ */
+function rangesCondition(ranges: Array<{ start: Date; end: Date }>): SqlFragment {
+  return raw(
+    ranges.map(({ start, end }) => `(${timeRangeCondition(start, end).text})`).join(" OR ")
+  );
+}
+
+/**
+ * Lists the recent window followed by the same window shifted back by each
+ * of the previous `baselineDays` days.
+ */
+function comparedRanges(window: HistogramWindow, baselineDays: number): Array<{ start: Date; end: Date }> {
+  return Array.from({ length: baselineDays + 1 }, (_, day) => ({
+    start: new Date(window.start.getTime() - day * DAY_MS),
+    end: new Date(window.end.getTime() - day * DAY_MS),
+  }));
+}
+
+/**
+ * Compiles a single query counting logs and errors per bucket across the
+ * recent window and every baseline day.
+ */
+export function compileAnomalyCounts(
+  source: LogflareSource,
+  columns: Set<string>,
+  window: HistogramWindow,
+  baselineDays: number
+): string {
+  const rows = bucketedRows(source, columns, window.interval).where(
+    rangesCondition(comparedRanges(window, baselineDays))
+  );
+
+  return QueryBuilder.fromSubquery(rows.build())
+    .select("bucket", aliased(raw("COUNT(*)"), "total"), aliased(raw("COUNTIF(is_error)"), "errors"))
+    .groupBy("bucket")
+    .orderBy("bucket", "ASC")
+    .build();
+}
+
+/**
+ * Compares one recent value with its baseline samples, returning the
+ * anomaly when it crosses either threshold.
+ */
+function compare(
+  start: number,
+  metric: Anomaly["metric"],
+  value: number,
+  samples: number[],
+  options: AnomalyOptions
+): Anomaly | null {
+  const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+  const stdDev = Math.sqrt(samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length);
+
+  if (Math.max(value, mean) < options.minCount || value === mean) {
+    return null;
+  }
+
+  const zScore = stdDev > 0 ? (value - mean) / stdDev : null;
+  const percentChange = mean > 0 ? ((value - mean) / mean) * 100 : null;
+  const flagged =
+    (zScore !== null && Math.abs(zScore) >= options.zThreshold) ||
+    (percentChange !== null && Math.abs(percentChange) >= options.percentThreshold) ||
+    (mean === 0 && stdDev === 0);
+
+  if (!flagged) {
+    return null;
+  }
+
+  return {
+    start: new Date(start).toISOString(),
+    metric,
+    direction: value > mean ? "spike" : "drop",
+    value,
+    baselineMean: Number(mean.toFixed(2)),
+    baselineStdDev: Number(stdDev.toFixed(2)),
+    zScore: zScore === null ? null : Number(zScore.toFixed(2)),
+    percentChange: percentChange === null ? null : Number(percentChange.toFixed(1)),
+    topMessages: [],
+  };
+}
+
+/**
+ * Compares every bucket of the recent window with the same bucket on each
+ * baseline day. Buckets missing from the rows count as zero.
+ */
+export function findAnomalies(
+  rows: Record<string, unknown>[],
+  window: HistogramWindow,
+  options: AnomalyOptions
+): Anomaly[] {
+  const counts = new Map<number, BucketCounts>();
+  for (const row of rows) {
+    counts.set(timestampToMs(row.bucket), { total: Number(row.total || 0), errors: Number(row.errors || 0) });
+  }
+  const countsAt = (start: number): BucketCounts => counts.get(start) || { total: 0, errors: 0 };
+
+  const anomalies: Anomaly[] = [];
+  for (const start of bucketStarts(window.start, window.end, window.interval)) {
+    const recent = countsAt(start);
+    const baseline = Array.from({ length: options.baselineDays }, (_, index) => countsAt(start - (index + 1) * DAY_MS));
+
+    const volume = compare(start, "volume", recent.total, baseline.map((day) => day.total), options);
+    const errors = compare(start, "errors", recent.errors, baseline.map((day) => day.errors), options);
+    anomalies.push(...[volume, errors].filter((anomaly): anomaly is Anomaly => anomaly !== null));
+  }
+
+  return anomalies;
+}
+
+/**
+ * Compiles a query for the most frequent messages in each flagged bucket.
+ */
+export function compileTopMessages(
+  source: LogflareSource,
+  columns: Set<string>,
+  interval: HistogramInterval,
+  anomalies: Anomaly[],
+  limit: number
+): string {
+  const ranges = [...new Set(anomalies.map((anomaly) => anomaly.start))].map((start) => ({
+    start: new Date(start),
+    end: new Date(new Date(start).getTime() + INTERVAL_MS[interval]),
+  }));
+
+  const rows = bucketedRows(source, columns, interval)
+    .select("event_message")
+    .where(rangesCondition(ranges));
+
+  const ranked = QueryBuilder.fromSubquery(rows.build())
+    .select(
+      "bucket",
+      "event_message",
+      aliased(raw("COUNT(*)"), "count"),
+      aliased(raw("COUNTIF(is_error)"), "errors"),
+      aliased(raw("ROW_NUMBER() OVER (PARTITION BY bucket ORDER BY COUNT(*) DESC)"), "message_rank")
+    )
+    .groupBy("bucket", "event_message");
+
+  return QueryBuilder.fromSubquery(ranked.build())
+    .select("bucket", "event_message", "count", "errors")
+    .where(sql`message_rank <= ${limit}`)
+    .orderBy("bucket", "ASC")
+    .orderBy("count", "DESC")
+    .build();
+}
+
+/**
+ * Attaches the rows from `compileTopMessages` to their anomalies.
+ */
+export function attachTopMessages(anomalies: Anomaly[], rows: Record<string, unknown>[]): Anomaly[] {
+  for (const anomaly of anomalies) {
+    const start = new Date(anomaly.start).getTime();
+    anomaly.topMessages = rows
+      .filter((row) => timestampToMs(row.bucket) === start)
+      .map((row) => ({
+        message: String(row.event_message ?? ""),
+        count: Number(row.count || 0),
+        errors: Number(row.errors || 0),
+      }));
+  }
+  return anomalies;
+}
@@ -0,0 +1,140 @@
+/**
+ * Optional server-level authentication: static bearer tokens mapped to
+ * server-held Logflare credentials and per-client access policies.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import express from "express";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+import { ClientPolicy, LogflareApiConfig } from "./types.js";
+
+/**
+ * Static tokens do not expire, but the SDK's bearer middleware requires an
+ * expiry, so each verified token is reported valid for this long.
+ */
+const STATIC_TOKEN_LIFETIME_S = 60 * 60;
+
+const clientPolicySchema = z.object({
+  id: z.string().min(1),
+  tokenSha256: z
+    .string()
+    .regex(/^[0-9a-f]{64}$/i, "must be the hex SHA-256 digest of the client's bearer token"),
+  apiKey: z.string().min(1),
+  sourceToken: z.string().optional(),
+  sources: z.union([z.literal("*"), z.array(z.string().min(1)).min(1)]).optional(),
+  tools: z.array(z.string().min(1)).optional(),
+});
+
+const clientsFileSchema = z.object({
+  clients: z.array(clientPolicySchema).min(1),
+});
+
+/**
+ * Hashes a bearer token the way client policies store it.
+ */
+export function hashBearerToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Reads and validates the client policies file, failing fast on startup
+ * when it is malformed.
+ */
+export function loadClientPolicies(path: string): ClientPolicy[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read client policies from ${path}: ${errorMessage}`);
+  }
+
+  const result = clientsFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid client policies in ${path}: ${issues.join("; ")}`);
+  }
+
+  const ids = result.data.clients.map((client) => client.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid client policies in ${path}: duplicate client id '${duplicate}'`);
+  }
+
+  return result.data.clients.map((client) => ({ ...client, tokenSha256: client.tokenSha256.toLowerCase() }));
+}
+
+/**
+ * Verifies bearer tokens against the configured clients and turns a
+ * verified client into the Logflare config its connection runs with.
+ */
+export class ClientRegistry implements OAuthTokenVerifier {
+  private readonly clients: Map<string, ClientPolicy>;
+
+  constructor(policies: ClientPolicy[]) {
+    this.clients = new Map(policies.map((policy) => [policy.id, policy]));
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const digest = Buffer.from(hashBearerToken(token), "hex");
+    // Compare against every client so timing does not reveal which matched.
+    let match: ClientPolicy | undefined;
+    for (const policy of this.clients.values()) {
+      if (timingSafeEqual(digest, Buffer.from(policy.tokenSha256, "hex")) && !match) {
+        match = policy;
+      }
+    }
+
+    if (!match) {
+      throw new InvalidTokenError("Invalid bearer token");
+    }
+
+    return {
+      token,
+      clientId: match.id,
+      scopes: [],
+      expiresAt: Math.floor(Date.now() / 1000) + STATIC_TOKEN_LIFETIME_S,
+    };
+  }
+
+  /**
+   * Builds the Logflare config for a verified client, or null if the
+   * client is not configured.
+   */
+  configFor(clientId: string): LogflareApiConfig | null {
+    const policy = this.clients.get(clientId);
+    if (!policy) {
+      return null;
+    }
+
+    return {
+      apiKey: policy.apiKey,
+      sourceToken: policy.sourceToken,
+      allowedSources: policy.sources === "*" ? undefined : policy.sources,
+      allowedTools: policy.tools,
+      clientId,
+    };
+  }
+}
+
+/**
+ * Requires `Authorization: Bearer <adminToken>` on admin routes.
+ */
+export function requireAdminToken(adminToken: string): express.RequestHandler {
+  const expected = Buffer.from(hashBearerToken(adminToken), "hex");
+
+  return (req, res, next) => {
+    const [type, token] = (req.headers.authorization || "").split(" ");
+    const digest = Buffer.from(hashBearerToken(token || ""), "hex");
+
+    if (type.toLowerCase() !== "bearer" || !timingSafeEqual(digest, expected)) {
+      res.status(401).set("WWW-Authenticate", "Bearer").send("Invalid admin token");
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Shared cache for Logflare API responses, with in-flight request
+ * coalescing.
+ */
+
+interface CacheEntry {
+  value: unknown;
+  size: number;
+  expiresAt: number;
+}
+
+const RELATIVE_TIME_PATTERN = /\b(CURRENT_TIMESTAMP|CURRENT_DATETIME|CURRENT_DATE|CURRENT_TIME)\b/i;
+
+/**
+ * Collapses whitespace outside quoted strings and identifiers and drops a
+ * trailing semicolon, so formatting differences share a cache entry.
+ */
+export function normalizeSql(sql: string): string {
+  let normalized = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (quote) {
+      normalized += char;
+      if (char === "\\") {
+        normalized += sql[++i] ?? "";
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+      normalized += char;
+    } else if (/\s/.test(char)) {
+      if (normalized.length > 0 && !normalized.endsWith(" ")) {
+        normalized += " ";
+      }
+    } else {
+      normalized += char;
+    }
+  }
+
+  return normalized.trim().replace(/\s*;$/, "");
+}
+
+/**
+ * Whether a query's result depends on when it runs, e.g. a window relative
+ * to `CURRENT_TIMESTAMP()`.
+ */
+export function isRelativeTimeQuery(sql: string): boolean {
+  return RELATIVE_TIME_PATTERN.test(sql);
+}
+
+/**
+ * Least-recently-used cache bounded by the JSON size of its values. Callers
+ * always get their own copy of a value, so cached results cannot be changed
+ * by the tools that use them.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private totalSize = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  /**
+   * Returns the cached value for `key`, or loads and caches it for `ttlMs`.
+   * Concurrent loads of the same key share one request. With `bypass` the
+   * cached value is ignored, but the fresh one still replaces it.
+   */
+  async get<T>(key: string, ttlMs: number, load: () => Promise<T>, bypass = false): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && !bypass && entry.expiresAt > Date.now()) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return structuredClone(entry.value) as T;
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = load()
+        .then((value) => {
+          this.store(key, value, ttlMs);
+          return value;
+        })
+        .finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    return structuredClone(await pending) as T;
+  }
+
+  private store(key: string, value: unknown, ttlMs: number): void {
+    this.evict(key);
+
+    const size = JSON.stringify(value)?.length ?? 0;
+    if (ttlMs <= 0 || size > this.maxSize / 4) {
+      return;
+    }
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + ttlMs });
+    this.totalSize += size;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.totalSize <= this.maxSize && oldest.expiresAt > Date.now()) {
+        break;
+      }
+      this.evict(oldestKey);
+    }
+  }
+
+  private evict(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalSize -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+}
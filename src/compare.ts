@@ -0,0 +1,239 @@
+/**
+ * Compares volume, levels, message patterns and field values between two
+ * time windows, e.g. before and after a deploy.
+ */
+
+import { QueryBuilder, SqlFragment, aliased, nestedFieldValue, raw, sql } from "./queryBuilder.js";
+import { compileLogSearch, levelPath, timeRangeCondition } from "./search.js";
+import { clusterMessages } from "./patterns.js";
+import {
+  ComparedWindow,
+  DistributionDelta,
+  LogPattern,
+  LogflareSource,
+  PatternComparison,
+  PatternDelta,
+} from "./types.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Patterns must reach this estimated count in a window to be reported. */
+const MIN_PATTERN_COUNT = 5;
+
+/** Ratio of hourly rates at which a pattern counts as increased. */
+const INCREASE_FACTOR = 2;
+
+/** Entries reported per list. */
+const MAX_DELTAS = 10;
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Labels each row with the window it falls in, as `period`.
+ */
+function periodColumn(windows: ComparedWindow[]): SqlFragment {
+  const cases = windows.map(
+    (window) => `WHEN ${timeRangeCondition(window.start, window.end).text} THEN ${sql`${window.label}`.text}`
+  );
+  return aliased(raw(`CASE ${cases.join(" ")} END`), "period");
+}
+
+/**
+ * Compiles a query counting the values of a field in each window. With a
+ * `limit`, only the most frequent values per window are kept.
+ */
+export function compileValueCounts(
+  source: LogflareSource,
+  windows: ComparedWindow[],
+  path: string,
+  limit?: number
+): string {
+  const rows = QueryBuilder.from(source.name)
+    .select(periodColumn(windows), aliased(nestedFieldValue(path), "value"))
+    .where(raw(windows.map((window) => `(${timeRangeCondition(window.start, window.end).text})`).join(" OR ")));
+
+  const counts = QueryBuilder.fromSubquery(rows.build())
+    .select("period", "value", aliased(raw("COUNT(*)"), "count"))
+    .groupBy("period", "value");
+
+  if (limit === undefined) {
+    return counts.build();
+  }
+
+  counts.select(aliased(raw("ROW_NUMBER() OVER (PARTITION BY period ORDER BY COUNT(*) DESC)"), "value_rank"));
+  return QueryBuilder.fromSubquery(counts.build())
+    .select("period", "value", "count")
+    .where(sql`value_rank <= ${limit}`)
+    .build();
+}
+
+/**
+ * Compiles the level counts query for both windows. Their sums give each
+ * window's total volume.
+ */
+export function compileLevelCounts(
+  source: LogflareSource,
+  columns: Set<string>,
+  windows: ComparedWindow[]
+): string {
+  return compileValueCounts(source, windows, levelPath(columns));
+}
+
+/**
+ * Compiles the query sampling the most recent messages of one window.
+ */
+export function compileWindowMessages(
+  source: LogflareSource,
+  columns: Set<string>,
+  window: ComparedWindow,
+  sampleSize: number
+): string {
+  return compileLogSearch(source, columns, {
+    since: window.start.toISOString(),
+    until: window.end.toISOString(),
+  })
+    .orderBy("timestamp", "DESC")
+    .limit(sampleSize)
+    .build();
+}
+
+/**
+ * Sums the `count` of rows per period.
+ */
+export function periodTotals(rows: Record<string, unknown>[]): Record<ComparedWindow["label"], number> {
+  const totals = { before: 0, after: 0 };
+  for (const row of rows) {
+    if (row.period === "before" || row.period === "after") {
+      totals[row.period] += Number(row.count || 0);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Compares total volume as hourly rates, so windows of different lengths
+ * are comparable.
+ */
+export function compareVolume(
+  totals: Record<ComparedWindow["label"], number>,
+  windows: Record<ComparedWindow["label"], ComparedWindow>
+) {
+  const perHour = (label: ComparedWindow["label"]) =>
+    totals[label] / ((windows[label].end.getTime() - windows[label].start.getTime()) / HOUR_MS);
+  const before = perHour("before");
+  const after = perHour("after");
+
+  return {
+    before: totals.before,
+    after: totals.after,
+    beforePerHour: round(before),
+    afterPerHour: round(after),
+    changePercent: before > 0 ? round(((after - before) / before) * 100, 1) : null,
+  };
+}
+
+/**
+ * Compares the share of each value between the windows, largest shift first.
+ */
+export function compareDistributions(rows: Record<string, unknown>[]): DistributionDelta[] {
+  const totals = periodTotals(rows);
+  const values = new Map<string, { before: number; after: number }>();
+
+  for (const row of rows) {
+    if (row.period !== "before" && row.period !== "after") {
+      continue;
+    }
+    const value = row.value === null || row.value === undefined ? "(none)" : String(row.value);
+    const counts = values.get(value) || { before: 0, after: 0 };
+    counts[row.period] += Number(row.count || 0);
+    values.set(value, counts);
+  }
+
+  return [...values.entries()]
+    .map(([value, counts]) => {
+      const beforeShare = totals.before > 0 ? counts.before / totals.before : 0;
+      const afterShare = totals.after > 0 ? counts.after / totals.after : 0;
+      return {
+        value,
+        before: counts.before,
+        after: counts.after,
+        beforeShare: round(beforeShare, 4),
+        afterShare: round(afterShare, 4),
+        shareChange: round(afterShare - beforeShare, 4),
+      };
+    })
+    .sort((a, b) => Math.abs(b.shareChange) - Math.abs(a.shareChange));
+}
+
+/**
+ * Estimates each pattern's hourly rate in a window, scaling sampled counts
+ * up to the window's total volume.
+ */
+function patternRates(
+  rows: Record<string, unknown>[],
+  window: ComparedWindow,
+  total: number
+): Map<string, { pattern: LogPattern; perHour: number; estimated: number }> {
+  const hours = (window.end.getTime() - window.start.getTime()) / HOUR_MS;
+  const scale = rows.length > 0 ? Math.max(total, rows.length) / rows.length : 0;
+
+  return new Map(
+    clusterMessages(rows, rows.length).map((pattern) => {
+      const estimated = pattern.count * scale;
+      return [pattern.pattern, { pattern, perHour: estimated / hours, estimated }];
+    })
+  );
+}
+
+/**
+ * Finds message patterns that are new, vanished or increased in the
+ * `after` window relative to the `before` window.
+ */
+export function comparePatterns(
+  beforeRows: Record<string, unknown>[],
+  afterRows: Record<string, unknown>[],
+  windows: Record<ComparedWindow["label"], ComparedWindow>,
+  totals: Record<ComparedWindow["label"], number>
+): PatternComparison {
+  const before = patternRates(beforeRows, windows.before, totals.before);
+  const after = patternRates(afterRows, windows.after, totals.after);
+  const delta = (key: string, example: string): PatternDelta => {
+    const beforePerHour = before.get(key)?.perHour || 0;
+    const afterPerHour = after.get(key)?.perHour || 0;
+    return {
+      pattern: key,
+      example,
+      beforePerHour: round(beforePerHour),
+      afterPerHour: round(afterPerHour),
+      changePercent: beforePerHour > 0 ? round(((afterPerHour - beforePerHour) / beforePerHour) * 100, 1) : null,
+    };
+  };
+
+  const comparison: PatternComparison = { new: [], vanished: [], increased: [] };
+  for (const [key, rate] of after) {
+    if (rate.estimated < MIN_PATTERN_COUNT) {
+      continue;
+    }
+    const previous = before.get(key);
+    if (!previous) {
+      comparison.new.push(delta(key, rate.pattern.example));
+    } else if (rate.perHour >= previous.perHour * INCREASE_FACTOR) {
+      comparison.increased.push(delta(key, rate.pattern.example));
+    }
+  }
+  for (const [key, rate] of before) {
+    if (rate.estimated >= MIN_PATTERN_COUNT && !after.has(key)) {
+      comparison.vanished.push(delta(key, rate.pattern.example));
+    }
+  }
+
+  return {
+    new: comparison.new.sort((a, b) => b.afterPerHour - a.afterPerHour).slice(0, MAX_DELTAS),
+    vanished: comparison.vanished.sort((a, b) => b.beforePerHour - a.beforePerHour).slice(0, MAX_DELTAS),
+    increased: comparison.increased
+      .sort((a, b) => b.afterPerHour - b.beforePerHour - (a.afterPerHour - a.beforePerHour))
+      .slice(0, MAX_DELTAS),
+  };
+}
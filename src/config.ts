@@ -2,9 +2,102 @@
  * Configuration constants for the Logflare MCP server.
  */
 
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Reads a positive integer setting from the environment, or returns the
+ * default when it is unset. Throws on anything else, so a typo stops the
+ * server at startup instead of silently applying the default.
+ */
+function positiveIntegerFromEnv(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer, got '${value}'`);
+  }
+  return parsed;
+}
+
 export const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
 
-export const LOGFLARE_API_BASE_URL = "https://api.logflare.app";
+export const MAX_SESSIONS_PER_API_KEY = positiveIntegerFromEnv("LOGFLARE_MCP_MAX_SESSIONS_PER_KEY", 20);
+
+export const SHUTDOWN_TIMEOUT_MS = 8 * 1000; // Cloud Run allows 10 seconds after SIGTERM
+
+export const REDIS_CONNECT_TIMEOUT_MS = 5 * 1000;
+
+export const REDIS_COMMAND_TIMEOUT_MS = 5 * 1000;
+
+export const LOGFLARE_API_BASE_URL =
+  process.env.LOGFLARE_API_BASE_URL || "https://api.logflare.app";
+
+export const LOGFLARE_REQUEST_TIMEOUT_MS = 30 * 1000; // 30 seconds
+
+export const LOGFLARE_MAX_RETRIES = 3;
+
+export const LOGFLARE_RETRY_BASE_DELAY_MS = 500;
+
+export const SOURCES_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export const SCHEMA_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export const QUERY_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export const RELATIVE_QUERY_CACHE_TTL_MS = 30 * 1000; // 30 seconds
+
+export const RESPONSE_CACHE_MAX_SIZE = 50 * 1024 * 1024; // characters of JSON
 
 export const DEFAULT_PORT = 3000;
 
+
+export const MAX_STORED_EVENTS_PER_SESSION = 1000;
+
+export const MAX_QUERY_LIMIT = 1000;
+
+export const DEFAULT_LOG_COLUMNS = ["timestamp", "event_message", "level", "id", "metadata"];
+
+export const MAX_SEARCH_RESULTS = 200;
+
+export const ERROR_LEVELS = ["error", "fatal", "critical"];
+
+export const MAX_HISTOGRAM_BUCKETS = 1000;
+
+export const MAX_HISTOGRAM_SPLITS = 10;
+
+export const MAX_BASELINE_DAYS = 30;
+
+export const MAX_LOG_PATTERNS = 100;
+
+export const MAX_COMPARED_FIELDS = 5;
+
+export const MAX_COMPARED_VALUES = 20;
+
+export const TRACE_DISCOVERY_SAMPLE_SIZE = 20;
+
+export const MAX_CONTEXT_EVENTS = 100;
+
+export const MAX_PROFILED_FIELDS = 25;
+
+export const MAX_TOP_VALUES = 100;
+
+export const SAVED_QUERIES_PATH =
+  process.env.LOGFLARE_SAVED_QUERIES_PATH || join(homedir(), ".logflare-mcp", "saved-queries.json");
+
+export const MAX_SAVED_QUERIES = 100;
+
+export const EXPORTS_DIR = process.env.LOGFLARE_EXPORTS_DIR || join(homedir(), ".logflare-mcp", "exports");
+
+export const EXPORT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export const EXPORT_SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+export const MAX_EXPORT_ROWS = 50000;
+
+export const DEFAULT_OUTPUT_MAX_CHARS = 40000; // roughly 10k tokens
+
+export const MAX_OUTPUT_MAX_CHARS = 200000;
@@ -0,0 +1,101 @@
+/**
+ * Events surrounding a single log event, like `grep -C`.
+ */
+
+import { DEFAULT_LOG_COLUMNS } from "./config.js";
+import { keysetCondition } from "./cursor.js";
+import { QueryBuilder, SqlFragment, nestedFieldCondition, raw, sql } from "./queryBuilder.js";
+import { hasColumn, pickColumns } from "./schema.js";
+import { LogContextAnchor, LogCursor, LogflareSource } from "./types.js";
+import { parseTimeToTimestamp } from "./utils.js";
+
+/**
+ * Compiles the query finding the anchor event: the event with the given
+ * id, or the first event at or after the given timestamp.
+ */
+export function compileAnchorQuery(
+  source: LogflareSource,
+  columns: Set<string>,
+  anchor: LogContextAnchor
+): string {
+  const query = QueryBuilder.from(source.name).select(...pickColumns(columns, DEFAULT_LOG_COLUMNS));
+
+  if (anchor.id !== undefined) {
+    query.where(sql`timestamp >= ${raw(parseTimeToTimestamp(anchor.since))}`).where(sql`id = ${anchor.id}`);
+  } else if (anchor.timestamp !== undefined) {
+    query.where(sql`timestamp >= ${raw(parseTimeToTimestamp(anchor.timestamp))}`);
+  } else {
+    throw new Error("Provide either an id or a timestamp to anchor the context.");
+  }
+
+  query.orderBy("timestamp", "ASC");
+  if (hasColumn(columns, "id")) {
+    query.orderBy("id", "ASC");
+  }
+  return query.limit(1).build();
+}
+
+/**
+ * Reads a possibly nested field from a result row, taking the first value
+ * when the path crosses repeated records.
+ */
+export function readFieldValue(row: Record<string, unknown>, path: string): unknown {
+  let values: unknown[] = [row];
+  for (const segment of path.split(".")) {
+    values = values
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .filter((value): value is Record<string, unknown> => Boolean(value) && typeof value === "object")
+      .map((value) => value[segment])
+      .filter((value) => value !== undefined && value !== null);
+  }
+  const [first] = values.flatMap((value) => (Array.isArray(value) ? value : [value]));
+  return first;
+}
+
+/**
+ * Builds conditions restricting context to events sharing the anchor's
+ * values for the given fields.
+ */
+export function correlationConditions(matches: Record<string, string>): SqlFragment[] {
+  return Object.entries(matches).map(([path, value]) =>
+    nestedFieldCondition(path, (field) => sql`CAST(${field} AS STRING) = ${value}`)
+  );
+}
+
+/**
+ * Compiles the query for up to `count` events on one side of the anchor,
+ * nearest first, no further than `withinMinutes` away.
+ */
+export function compileContextQuery(
+  source: LogflareSource,
+  columns: Set<string>,
+  anchor: Record<string, unknown>,
+  side: "before" | "after",
+  count: number,
+  withinMinutes: number,
+  conditions: SqlFragment[]
+): string {
+  const timestamp = anchor.timestamp as number;
+  const cursor: LogCursor = {
+    timestamp,
+    id: hasColumn(columns, "id") && anchor.id !== undefined && anchor.id !== null ? String(anchor.id) : null,
+    direction: "forward",
+  };
+  const order = side === "before" ? "DESC" : "ASC";
+  const bound =
+    side === "before"
+      ? sql`timestamp >= TIMESTAMP_SUB(TIMESTAMP_MICROS(${timestamp}), INTERVAL ${withinMinutes} MINUTE)`
+      : sql`timestamp <= TIMESTAMP_ADD(TIMESTAMP_MICROS(${timestamp}), INTERVAL ${withinMinutes} MINUTE)`;
+
+  const query = QueryBuilder.from(source.name)
+    .select(...pickColumns(columns, DEFAULT_LOG_COLUMNS))
+    .where(bound)
+    .where(keysetCondition(cursor, order));
+  conditions.forEach((condition) => query.where(condition));
+
+  query.orderBy("timestamp", order);
+  if (cursor.id !== null) {
+    query.orderBy("id", order);
+  }
+  return query.limit(count).build();
+}
@@ -0,0 +1,118 @@
+/**
+ * Opaque keyset pagination cursors for log-returning tools.
+ */
+
+import { QueryBuilder, SqlFragment, sql } from "./queryBuilder.js";
+import { LogCursor, LogPage, PageRequest } from "./types.js";
+
+/**
+ * Encodes a cursor as an opaque base64url string.
+ */
+export function encodeCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor`.
+ */
+export function decodeCursor(text: string): LogCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8")) as LogCursor;
+    if (
+      typeof cursor.timestamp !== "number" ||
+      (cursor.id !== null && typeof cursor.id !== "string") ||
+      (cursor.direction !== "forward" && cursor.direction !== "backward")
+    ) {
+      throw new Error("malformed");
+    }
+    return cursor;
+  } catch {
+    throw new Error("Invalid cursor. Pass a nextCursor or previousCursor value from a previous response unchanged.");
+  }
+}
+
+/**
+ * Builds a cursor pointing at the given row, or null if it has no timestamp.
+ * The id is only kept when the page was also ordered by it, as the keyset
+ * condition would otherwise skip or repeat rows sharing the timestamp.
+ */
+function cursorFromRow(
+  row: Record<string, unknown> | undefined,
+  direction: LogCursor["direction"],
+  timestampField: string,
+  hasId: boolean
+): string | null {
+  if (!row || typeof row[timestampField] !== "number") {
+    return null;
+  }
+  return encodeCursor({
+    timestamp: row[timestampField] as number,
+    id: !hasId || row.id === undefined || row.id === null ? null : String(row.id),
+    direction,
+  });
+}
+
+/**
+ * Builds the keyset condition selecting rows strictly after the cursor in
+ * the given sort direction. Ties on timestamp are broken by `id`.
+ */
+export function keysetCondition(cursor: LogCursor, order: "ASC" | "DESC"): SqlFragment {
+  const operator = order === "DESC" ? sql`<` : sql`>`;
+  const timestamp = sql`TIMESTAMP_MICROS(${cursor.timestamp})`;
+
+  if (cursor.id === null) {
+    return sql`timestamp ${operator} ${timestamp}`;
+  }
+
+  return sql`timestamp ${operator} ${timestamp} OR (timestamp = ${timestamp} AND id ${operator} ${cursor.id})`;
+}
+
+/**
+ * Adds the keyset condition, a stable (timestamp, id) ordering and a limit
+ * one row past the page size, so `readPage` can tell if more rows exist.
+ * Backward pages are queried in reverse order and flipped by `readPage`.
+ */
+export function applyPage(query: QueryBuilder, page: PageRequest): QueryBuilder {
+  const cursor = page.cursor ? decodeCursor(page.cursor) : null;
+  const backward = cursor?.direction === "backward";
+  const order = backward ? (page.order === "ASC" ? "DESC" : "ASC") : page.order;
+
+  if (cursor) {
+    query.where(keysetCondition(cursor, order));
+  }
+
+  query.orderBy("timestamp", order);
+  if (page.hasId) {
+    query.orderBy("id", order);
+  }
+
+  return query.limit(page.pageSize + 1);
+}
+
+/**
+ * Trims the extra row fetched by `applyPage` and builds the cursors for the
+ * neighbouring pages.
+ */
+export function readPage(
+  rows: Record<string, unknown>[],
+  page: PageRequest,
+  timestampField = "timestamp"
+): LogPage {
+  const backward = page.cursor ? decodeCursor(page.cursor).direction === "backward" : false;
+  const hasMore = rows.length > page.pageSize;
+  const pageRows = rows.slice(0, page.pageSize);
+  if (backward) {
+    pageRows.reverse();
+  }
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const hasNext = backward ? pageRows.length > 0 : hasMore;
+  const hasPrevious = backward ? hasMore : Boolean(page.cursor);
+
+  return {
+    rows: pageRows,
+    nextCursor: hasNext ? cursorFromRow(last, "forward", timestampField, page.hasId) : null,
+    previousCursor: hasPrevious ? cursorFromRow(first, "backward", timestampField, page.hasId) : null,
+  };
+}
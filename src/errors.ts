@@ -0,0 +1,142 @@
+/**
+ * Typed errors raised by the Logflare API client and query validation.
+ */
+
+import { QueryViolation } from "./types.js";
+
+/**
+ * Base class for all failures talking to the Logflare API.
+ */
+export class LogflareApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "LogflareApiError";
+  }
+
+  /**
+   * Suggests what the caller can do about the failure.
+   */
+  get hint(): string | null {
+    return null;
+  }
+}
+
+/**
+ * The API key was rejected or lacks access to the requested resource.
+ */
+export class LogflareAuthError extends LogflareApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "LogflareAuthError";
+  }
+
+  get hint(): string {
+    return "Check that the Logflare API key is valid and has access to this source.";
+  }
+}
+
+/**
+ * The account hit a rate limit or usage quota and retries were exhausted.
+ */
+export class LogflareQuotaError extends LogflareApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "LogflareQuotaError";
+  }
+
+  get hint(): string {
+    return "Logflare rate limit or quota reached. Wait before retrying, or narrow the time range to scan less data.";
+  }
+}
+
+/**
+ * BigQuery rejected the submitted SQL.
+ */
+export class LogflareSqlError extends LogflareApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "LogflareSqlError";
+  }
+
+  get hint(): string {
+    return "Fix the SQL and try again. Use get_source_schema to check column names and list_sources to check table names.";
+  }
+}
+
+/**
+ * The requested source or endpoint does not exist.
+ */
+export class LogflareNotFoundError extends LogflareApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "LogflareNotFoundError";
+  }
+
+  get hint(): string {
+    return "Use list_sources to see the sources available to this API key.";
+  }
+}
+
+/**
+ * A source reference did not match any source visible to the API key.
+ */
+export class UnknownSourceError extends LogflareNotFoundError {
+  constructor(
+    public readonly reference: string,
+    public readonly suggestions: string[]
+  ) {
+    super(`Unknown source '${reference}'`);
+    this.name = "UnknownSourceError";
+  }
+
+  get hint(): string {
+    if (this.suggestions.length > 0) {
+      return `Did you mean ${this.suggestions.map((name) => `'${name}'`).join(", ")}? Use list_sources to see all available sources.`;
+    }
+    return super.hint;
+  }
+}
+
+/**
+ * The source exists but this connection is not allowed to use it.
+ */
+export class SourceNotAllowedError extends LogflareApiError {
+  constructor(
+    public readonly sourceName: string,
+    public readonly allowedSources: string[]
+  ) {
+    super(`Source '${sourceName}' is not enabled for this connection`, 403);
+    this.name = "SourceNotAllowedError";
+  }
+
+  get hint(): string {
+    return `This connection can use: ${this.allowedSources.map((name) => `'${name}'`).join(", ")}.`;
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class LogflareTimeoutError extends LogflareApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogflareTimeoutError";
+  }
+
+  get hint(): string {
+    return "The query took too long. Narrow the time range or add a LIMIT.";
+  }
+}
+
+/**
+ * A query was refused by the SQL safety checks before reaching Logflare.
+ */
+export class QueryRejectedError extends Error {
+  constructor(public readonly violations: QueryViolation[]) {
+    super(`Query rejected: ${violations.map((violation) => violation.message).join(" ")}`);
+    this.name = "QueryRejectedError";
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * In-memory event store backing resumable Streamable HTTP sessions.
+ */
+
+import { randomUUID } from "node:crypto";
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { MAX_STORED_EVENTS_PER_SESSION } from "./config.js";
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Keeps the most recent events of a single session so a client that lost
+ * its stream can reconnect with `Last-Event-ID` and replay what it missed.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    this.events.push({ eventId, streamId, message });
+
+    if (this.events.length > MAX_STORED_EVENTS_PER_SESSION) {
+      this.events.shift();
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find((event) => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex((event) => event.eventId === lastEventId);
+    if (index === -1) {
+      return "";
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+
+    return streamId;
+  }
+}
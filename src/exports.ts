@@ -0,0 +1,202 @@
+/**
+ * Query result exports, written to a server-side directory and served as
+ * MCP resources until they expire.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { EXPORT_SWEEP_INTERVAL_MS } from "./config.js";
+import { csvLines } from "./format.js";
+import { encodeParquet } from "./parquet.js";
+import { ExportFormat, ExportRecord } from "./types.js";
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  ndjson: { extension: "ndjson", mimeType: "application/x-ndjson" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+  parquet: { extension: "parquet", mimeType: "application/vnd.apache.parquet" },
+};
+
+const EXPORT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * The MCP resource URI an export is served under.
+ */
+export function exportUri(id: string): string {
+  return `logflare://exports/${id}`;
+}
+
+function isRecordFile(file: string): boolean {
+  return file.endsWith(".json");
+}
+
+function recordId(file: string): string {
+  return file.slice(0, -".json".length);
+}
+
+/**
+ * Encodes rows in an export file format.
+ */
+export function encodeExport(rows: Record<string, unknown>[], format: ExportFormat): Buffer {
+  switch (format) {
+    case "ndjson":
+      return Buffer.from(rows.map((row) => `${JSON.stringify(row)}\n`).join(""), "utf8");
+    case "csv":
+      return Buffer.from(rows.length > 0 ? `${csvLines(rows).join("\n")}\n` : "", "utf8");
+    case "parquet":
+      return encodeParquet(rows);
+  }
+}
+
+/**
+ * Keeps each export as a data file next to a JSON record describing it.
+ * Exports are only visible to the owner that created them, and expired
+ * ones are deleted periodically.
+ */
+export class ExportStore {
+  private sweeping: Promise<void> | null = null;
+
+  constructor(
+    private readonly directory: string,
+    private readonly ttlMs: number
+  ) {
+    setInterval(() => {
+      this.sweep().catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to delete expired exports: ${errorMessage}`);
+      });
+    }, EXPORT_SWEEP_INTERVAL_MS).unref();
+  }
+
+  async write(
+    owner: string,
+    format: ExportFormat,
+    rows: Record<string, unknown>[],
+    sql: string
+  ): Promise<ExportRecord> {
+    await this.sweep();
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const id = randomUUID();
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+    const data = encodeExport(rows, format);
+    const createdAt = new Date();
+    const record: ExportRecord = {
+      id,
+      owner,
+      format,
+      fileName: `${id}.${extension}`,
+      mimeType,
+      rows: rows.length,
+      bytes: data.length,
+      sql,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + this.ttlMs).toISOString(),
+    };
+
+    // The record is written last, so an export is never visible half-written.
+    const dataPath = join(this.directory, record.fileName);
+    await writeFile(`${dataPath}.tmp`, data, { mode: 0o600 });
+    await rename(`${dataPath}.tmp`, dataPath);
+    await writeFile(this.recordPath(id), JSON.stringify(record, null, 2), { mode: 0o600 });
+    return record;
+  }
+
+  /**
+   * Returns an unexpired export created by the given owner.
+   */
+  async get(owner: string, id: string): Promise<ExportRecord | undefined> {
+    if (!EXPORT_ID_PATTERN.test(id)) {
+      return undefined;
+    }
+    const record = await this.readRecord(id);
+    return record && record.owner === owner && !this.isExpired(record) ? record : undefined;
+  }
+
+  read(record: ExportRecord): Promise<Buffer> {
+    return readFile(join(this.directory, record.fileName));
+  }
+
+  /**
+   * Lists the unexpired exports created by the given owner, newest first.
+   */
+  async list(owner: string): Promise<ExportRecord[]> {
+    await this.sweep();
+    const files = (await this.files()).filter(isRecordFile);
+    const records = await Promise.all(files.map((file) => this.readRecord(recordId(file))));
+    return records
+      .filter(
+        (record): record is ExportRecord => record !== undefined && record.owner === owner && !this.isExpired(record)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Deletes expired exports, and data files left without a record by an
+   * interrupted write once they are older than the TTL.
+   */
+  sweep(): Promise<void> {
+    if (!this.sweeping) {
+      this.sweeping = this.deleteExpired().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async deleteExpired(): Promise<void> {
+    const files = await this.files();
+    const recorded = new Set<string>();
+
+    for (const file of files.filter(isRecordFile)) {
+      const record = await this.readRecord(recordId(file));
+      if (record && !this.isExpired(record)) {
+        recorded.add(record.fileName);
+        continue;
+      }
+      if (record) {
+        await rm(join(this.directory, record.fileName), { force: true });
+      }
+      await rm(join(this.directory, file), { force: true });
+    }
+
+    for (const file of files.filter((file) => !isRecordFile(file) && !recorded.has(file))) {
+      const path = join(this.directory, file);
+      const stats = await stat(path).catch(() => null);
+      if (stats && stats.mtimeMs + this.ttlMs < Date.now()) {
+        await rm(path, { force: true });
+      }
+    }
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return await readdir(this.directory);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async readRecord(id: string): Promise<ExportRecord | undefined> {
+    try {
+      return JSON.parse(await readFile(this.recordPath(id), "utf8")) as ExportRecord;
+    } catch (error: unknown) {
+      // A missing or unreadable record is treated as no export.
+      if ((error as NodeJS.ErrnoException).code === "ENOENT" || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private recordPath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  private isExpired(record: ExportRecord): boolean {
+    return Date.parse(record.expiresAt) <= Date.now();
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Most frequent values of a field, for "which hosts/users/endpoints"
+ * questions.
+ */
+
+import { QueryBuilder, aliased, nestedFieldValue, raw } from "./queryBuilder.js";
+import { compileLogSearch } from "./search.js";
+import { LogSearchFilter, LogflareSource, TopValuesResult } from "./types.js";
+
+/**
+ * Compiles the top values query. Each log counts once, with the first value
+ * when a nested path holds several. Window functions over the grouped rows
+ * return the overall total and number of distinct values alongside.
+ */
+export function compileTopValues(
+  source: LogflareSource,
+  columns: Set<string>,
+  path: string,
+  filter: LogSearchFilter,
+  limit: number
+): string {
+  const rows = compileLogSearch(source, columns, filter).select(aliased(nestedFieldValue(path), "facet_value"));
+
+  return QueryBuilder.fromSubquery(rows.build())
+    .select(
+      aliased(raw("facet_value"), "value"),
+      aliased(raw("COUNT(*)"), "count"),
+      aliased(raw("SUM(COUNT(*)) OVER ()"), "total"),
+      aliased(raw("COUNT(*) OVER ()"), "distinct_values")
+    )
+    .groupBy("facet_value")
+    .orderBy("count", "DESC")
+    .limit(limit)
+    .build();
+}
+
+/**
+ * Adds percentages and folds the values beyond the limit into "other".
+ */
+export function buildTopValues(rows: Record<string, unknown>[]): TopValuesResult {
+  const total = Number(rows[0]?.total || 0);
+  const percent = (count: number) => (total > 0 ? Number(((count / total) * 100).toFixed(2)) : 0);
+
+  const values = rows.map((row) => {
+    const count = Number(row.count || 0);
+    return {
+      value: row.value === null || row.value === undefined ? null : String(row.value),
+      count,
+      percent: percent(count),
+    };
+  });
+  const otherCount = total - values.reduce((sum, value) => sum + value.count, 0);
+
+  return {
+    total,
+    distinctValues: Number(rows[0]?.distinct_values || 0),
+    values,
+    other: { count: otherCount, percent: percent(otherCount) },
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Shared response formatter for tool results: output formats, field
+ * projection and a size budget with explicit truncation markers.
+ */
+
+import { DEFAULT_OUTPUT_MAX_CHARS, MAX_OUTPUT_MAX_CHARS } from "./config.js";
+import { OutputOptions } from "./types.js";
+
+interface ShapeLimits {
+  stringChars: number;
+  depth: number;
+}
+
+/**
+ * Shaping applied in turn until the output fits: long strings and deep
+ * nesting are cut first, more aggressively at each level, and only then
+ * are trailing rows dropped.
+ */
+const SHAPE_LEVELS: ShapeLimits[] = [
+  { stringChars: Infinity, depth: Infinity },
+  { stringChars: 500, depth: 4 },
+  { stringChars: 100, depth: 2 },
+];
+
+/**
+ * Reads a dotted path, descending into every element of repeated records.
+ * A path matching one value returns it as-is; several are returned as an array.
+ */
+function pickPath(value: unknown, segments: string[]): unknown {
+  if (segments.length === 0) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const values = value.map((item) => pickPath(item, segments)).filter((item) => item !== undefined);
+    return values.length === 0 ? undefined : values.length === 1 ? values[0] : values;
+  }
+  if (value !== null && typeof value === "object") {
+    return pickPath((value as Record<string, unknown>)[segments[0]], segments.slice(1));
+  }
+  return undefined;
+}
+
+/**
+ * Keeps only the given paths of a row, keyed by the dotted path.
+ */
+export function projectRow(row: unknown, paths: string[]): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+  for (const path of paths) {
+    const value = pickPath(row, path.split("."));
+    if (value !== undefined) {
+      projected[path] = value;
+    }
+  }
+  return projected;
+}
+
+/**
+ * Truncates long strings and replaces nesting deeper than the limit with a
+ * marker describing what was cut.
+ */
+function shapeValue(value: unknown, limits: ShapeLimits, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > limits.stringChars
+      ? `${value.slice(0, limits.stringChars)}…[truncated ${plural(value.length - limits.stringChars, "char")}]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return depth >= limits.depth
+      ? `[truncated: array of ${plural(value.length, "item")}]`
+      : value.map((item) => shapeValue(item, limits, depth + 1));
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value);
+    return depth >= limits.depth
+      ? `[truncated: object with ${plural(entries.length, "key")}]`
+      : Object.fromEntries(entries.map(([key, item]) => [key, shapeValue(item, limits, depth + 1)]));
+  }
+  return value;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function compact(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value) ?? "";
+}
+
+function rowColumns(rows: unknown[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    if (row !== null && typeof row === "object" && !Array.isArray(row)) {
+      Object.keys(row).forEach((key) => columns.add(key));
+    } else {
+      columns.add("value");
+    }
+  }
+  return Array.from(columns);
+}
+
+function cell(row: unknown, column: string): unknown {
+  if (row !== null && typeof row === "object" && !Array.isArray(row)) {
+    return (row as Record<string, unknown>)[column];
+  }
+  return column === "value" ? row : undefined;
+}
+
+function markdownCell(value: unknown): string {
+  return value === undefined || value === null
+    ? ""
+    : compact(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = compact(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as CSV lines: a header of every column seen, then one line
+ * per row. Nested values are written as JSON.
+ */
+export function csvLines(rows: unknown[]): string[] {
+  const columns = rowColumns(rows);
+  return [
+    columns.map(csvCell).join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(cell(row, column))).join(",")),
+  ];
+}
+
+/**
+ * Renders a result in the requested format. Tabular formats render `rows`
+ * as one line or table row each, preceded by the remaining fields.
+ */
+function render(
+  meta: Record<string, unknown> | null,
+  rows: unknown[] | null,
+  options: OutputOptions,
+  rowsKey?: string
+): string {
+  const format = options.format ?? "json";
+
+  if (format === "json") {
+    if (!meta) {
+      return JSON.stringify(rows, null, 2);
+    }
+    return JSON.stringify(rows && rowsKey ? { ...meta, [rowsKey]: rows } : meta, null, 2);
+  }
+
+  const metaEntries = Object.entries(meta ?? {}).filter(([key]) => !rows || key !== rowsKey);
+
+  if (format === "jsonl") {
+    return [
+      ...(metaEntries.length > 0 ? [JSON.stringify(Object.fromEntries(metaEntries))] : []),
+      ...(rows ?? []).map((row) => JSON.stringify(row)),
+    ].join("\n");
+  }
+
+  if (format === "markdown") {
+    const columns = rows ? rowColumns(rows) : [];
+    const lines = metaEntries.map(([key, value]) => `- **${key}**: ${markdownCell(value)}`);
+    if (rows && rows.length > 0) {
+      if (lines.length > 0) {
+        lines.push("");
+      }
+      lines.push(`| ${columns.map(markdownCell).join(" | ")} |`);
+      lines.push(`| ${columns.map(() => "---").join(" | ")} |`);
+      rows.forEach((row) => lines.push(`| ${columns.map((column) => markdownCell(cell(row, column))).join(" | ")} |`));
+    } else if (rows) {
+      lines.push("_No rows._");
+    }
+    return lines.join("\n");
+  }
+
+  const lines = metaEntries.map(([key, value]) => `# ${key}: ${compact(value).replace(/\r?\n/g, " ")}`);
+  if (rows && rows.length > 0) {
+    lines.push(...csvLines(rows));
+  } else if (rows) {
+    lines.push("# No rows.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats a tool result within the output budget. `rowsKey` names the
+ * field holding the result's rows, if any; an array payload is all rows.
+ * Field projection applies to rows only. Dropping trailing rows clears
+ * `nextCursor`, which would skip them.
+ */
+export function formatOutput(payload: unknown, options: OutputOptions = {}, rowsKey?: string): string {
+  const maxChars = Math.max(1000, Math.min(options.maxChars ?? DEFAULT_OUTPUT_MAX_CHARS, MAX_OUTPUT_MAX_CHARS));
+  const isObject = payload !== null && typeof payload === "object" && !Array.isArray(payload);
+
+  let rows: unknown[] | null = Array.isArray(payload) ? payload : null;
+  let meta: Record<string, unknown> | null = isObject ? { ...(payload as Record<string, unknown>) } : null;
+  if (meta && rowsKey && Array.isArray(meta[rowsKey])) {
+    // Keep the key in place so JSON output preserves the field order.
+    rows = meta[rowsKey] as unknown[];
+    meta[rowsKey] = null;
+  }
+  if (!rows && !meta) {
+    meta = { result: payload };
+  }
+  if (rows && options.outputFields && options.outputFields.length > 0) {
+    const paths = options.outputFields;
+    rows = rows.map((row) => projectRow(row, paths));
+  }
+
+  let text = "";
+  let shapedMeta: Record<string, unknown> | null = null;
+  let shapedRows: unknown[] | null = null;
+  for (const limits of SHAPE_LEVELS) {
+    // Metadata sits one level above the rows, so it gets one more level of depth.
+    const metaLimits = { ...limits, depth: limits.depth + 1 };
+    shapedMeta = meta ? (shapeValue(meta, metaLimits) as Record<string, unknown>) : null;
+    shapedRows = rows ? rows.map((row) => shapeValue(row, limits)) : null;
+    text = render(shapedMeta, shapedRows, options, rowsKey);
+    if (text.length <= maxChars) {
+      return text;
+    }
+  }
+
+  // Keep as many leading rows as fit, leaving room for the marker line. A
+  // next-page cursor would point past the omitted rows, so it is cleared.
+  const rowCount = shapedRows?.length ?? 0;
+  const clearsCursor = typeof shapedMeta?.nextCursor === "string";
+  const pagedMeta = shapedMeta && clearsCursor ? { ...shapedMeta, nextCursor: null } : shapedMeta;
+  const marker = (omitted: number) =>
+    `\n…[truncated: ${omitted} of ${rowCount} rows omitted to fit maxChars ${maxChars}. ` +
+    (clearsCursor
+      ? "nextCursor was cleared, as it would skip them: use a smaller pageSize, outputFields or a larger maxChars.]"
+      : "Use outputFields, a smaller limit or page, or a larger maxChars.]");
+
+  if (shapedRows) {
+    let low = 0;
+    let high = shapedRows.length - 1;
+    let best: string | null = null;
+    while (low <= high) {
+      const count = Math.floor((low + high) / 2);
+      const candidate = render(pagedMeta, shapedRows.slice(0, count), options, rowsKey) + marker(rowCount - count);
+      if (candidate.length <= maxChars) {
+        best = candidate;
+        low = count + 1;
+      } else {
+        high = count - 1;
+      }
+    }
+    if (best) {
+      return best;
+    }
+  }
+
+  // Even the fields alone are too large: replace them with markers, largest
+  // first, so the output stays well-formed.
+  const rowsMarker = shapedRows ? marker(rowCount) : "";
+  const emptyRows = shapedRows ? [] : null;
+  if (pagedMeta) {
+    const fields = { ...pagedMeta };
+    const size = (key: string) => JSON.stringify(fields[key])?.length ?? 0;
+    const keys = Object.keys(fields)
+      .filter((key) => !(shapedRows && key === rowsKey))
+      .sort((a, b) => size(b) - size(a));
+    for (const key of keys) {
+      fields[key] = `[truncated: ${plural(size(key), "char")} to fit maxChars ${maxChars}]`;
+      text = render(fields, emptyRows, options, rowsKey) + rowsMarker;
+      if (text.length <= maxChars) {
+        return text;
+      }
+    }
+  }
+
+  // Only reached for budgets too small to hold a marker per field: cut at the last line that fits.
+  const cut = text.lastIndexOf("\n", maxChars - 100);
+  return `${text.slice(0, Math.max(0, cut))}\n…[truncated: output cut at maxChars ${maxChars}]`;
+}
@@ -0,0 +1,207 @@
+/**
+ * Time-bucketed log counts for locating when an incident started.
+ */
+
+import { ERROR_LEVELS, MAX_HISTOGRAM_BUCKETS, MAX_HISTOGRAM_SPLITS } from "./config.js";
+import { QueryBuilder, aliased, nestedFieldValue, raw, sql } from "./queryBuilder.js";
+import { levelCondition, levelPath } from "./search.js";
+import {
+  HistogramBucket,
+  HistogramInterval,
+  HistogramOptions,
+  HistogramResult,
+  HistogramWindow,
+  LogflareSource,
+} from "./types.js";
+import { parseTimeToDate, parseTimeToTimestamp, timestampToMs } from "./utils.js";
+
+export const INTERVAL_MS: Record<HistogramInterval, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Picks the finest interval that keeps a window to a readable number of
+ * buckets: minutes up to 2 hours, hours up to 3 days, days beyond.
+ */
+export function chooseInterval(start: Date, end: Date): HistogramInterval {
+  const duration = end.getTime() - start.getTime();
+  if (duration <= 2 * INTERVAL_MS.hour) {
+    return "minute";
+  }
+  if (duration <= 3 * INTERVAL_MS.day) {
+    return "hour";
+  }
+  return "day";
+}
+
+/**
+ * Lists the start of every bucket overlapping the window, aligned to UTC
+ * like TIMESTAMP_TRUNC.
+ */
+export function bucketStarts(start: Date, end: Date, interval: HistogramInterval): number[] {
+  const step = INTERVAL_MS[interval];
+  const first = Math.floor(start.getTime() / step) * step;
+  const count = Math.max(1, Math.ceil((end.getTime() - first) / step));
+  return Array.from({ length: count }, (_, index) => first + index * step);
+}
+
+/**
+ * Resolves the window bounds and interval, choosing the interval when none
+ * is given and rejecting windows with too many buckets.
+ */
+export function resolveHistogramWindow(
+  since: string,
+  until: string | undefined,
+  interval: HistogramInterval | undefined,
+  now: Date = new Date()
+): HistogramWindow {
+  const start = parseTimeToDate(since, now);
+  const end = until ? parseTimeToDate(until, now) : now;
+  if (end.getTime() <= start.getTime()) {
+    throw new Error(`Invalid window: '${since}' is not before '${until || "now"}'.`);
+  }
+
+  const resolved = interval || chooseInterval(start, end);
+  const count = bucketStarts(start, end, resolved).length;
+  if (count > MAX_HISTOGRAM_BUCKETS) {
+    throw new Error(
+      `The window spans ${count} ${resolved} buckets (max ${MAX_HISTOGRAM_BUCKETS}). Use a larger interval or a shorter window.`
+    );
+  }
+
+  return { start, end, interval: resolved };
+}
+
+/**
+ * Names the split a row belongs to, treating missing values as "(none)".
+ */
+function splitName(value: unknown): string {
+  return value === null || value === undefined ? "(none)" : String(value);
+}
+
+function emptyBucket(startMs: number, split: boolean): HistogramBucket {
+  return {
+    start: new Date(startMs).toISOString(),
+    total: 0,
+    errors: 0,
+    errorRate: 0,
+    ...(split ? { splits: {} } : {}),
+  };
+}
+
+/**
+ * Starts a per-row query selecting each log's `bucket` and `is_error` flag,
+ * for callers to filter and aggregate.
+ */
+export function bucketedRows(
+  source: LogflareSource,
+  columns: Set<string>,
+  interval: HistogramInterval
+): QueryBuilder {
+  return QueryBuilder.from(source.name).select(
+    aliased(raw(`TIMESTAMP_TRUNC(timestamp, ${interval.toUpperCase()})`), "bucket"),
+    aliased(levelCondition(ERROR_LEVELS, columns), "is_error")
+  );
+}
+
+/**
+ * Compiles the histogram query. Bucket, split value and error flag are
+ * computed per row in a subquery so the outer query only groups aliases.
+ */
+export function compileHistogram(
+  source: LogflareSource,
+  columns: Set<string>,
+  options: HistogramOptions
+): string {
+  const splitPath = options.splitBy === "level" ? levelPath(columns) : options.splitBy;
+
+  const rows = bucketedRows(source, columns, options.interval)
+    .where(sql`timestamp >= ${raw(parseTimeToTimestamp(options.since))}`);
+
+  if (options.until) {
+    rows.where(sql`timestamp < ${raw(parseTimeToTimestamp(options.until))}`);
+  }
+
+  const groups = ["bucket"];
+  if (splitPath) {
+    rows.select(aliased(nestedFieldValue(splitPath), "split_value"));
+    groups.push("split_value");
+  }
+
+  return QueryBuilder.fromSubquery(rows.build())
+    .select(...groups, aliased(raw("COUNT(*)"), "total"), aliased(raw("COUNTIF(is_error)"), "errors"))
+    .groupBy(...groups)
+    .orderBy("bucket", "ASC")
+    .build();
+}
+
+/**
+ * Turns grouped rows into a gap-free series with error rates. Split values
+ * beyond the most frequent `MAX_HISTOGRAM_SPLITS` are folded into "other".
+ */
+export function buildHistogram(
+  rows: Record<string, unknown>[],
+  start: Date,
+  end: Date,
+  options: HistogramOptions
+): HistogramResult {
+  const split = Boolean(options.splitBy);
+  const splitTotals = new Map<string, number>();
+  for (const row of rows) {
+    const value = splitName(row.split_value);
+    splitTotals.set(value, (splitTotals.get(value) || 0) + Number(row.total || 0));
+  }
+  const keptSplits = new Set(
+    [...splitTotals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_HISTOGRAM_SPLITS)
+      .map(([value]) => value)
+  );
+
+  const buckets = new Map<number, HistogramBucket>();
+  for (const bucketStart of bucketStarts(start, end, options.interval)) {
+    buckets.set(bucketStart, emptyBucket(bucketStart, split));
+  }
+
+  for (const row of rows) {
+    const key = timestampToMs(row.bucket);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(key, split);
+      buckets.set(key, bucket);
+    }
+
+    const total = Number(row.total || 0);
+    bucket.total += total;
+    bucket.errors += Number(row.errors || 0);
+
+    if (bucket.splits) {
+      const value = splitName(row.split_value);
+      const name = keptSplits.has(value) ? value : "other";
+      bucket.splits[name] = (bucket.splits[name] || 0) + total;
+    }
+  }
+
+  const series = [...buckets.entries()].sort((a, b) => a[0] - b[0]).map(([, bucket]) => bucket);
+  let total = 0;
+  let errors = 0;
+  let peak: HistogramBucket | null = null;
+  for (const bucket of series) {
+    bucket.errorRate = bucket.total > 0 ? Number((bucket.errors / bucket.total).toFixed(4)) : 0;
+    total += bucket.total;
+    errors += bucket.errors;
+    if (bucket.total > 0 && (!peak || bucket.total > peak.total)) {
+      peak = bucket;
+    }
+  }
+
+  return {
+    interval: options.interval,
+    buckets: series,
+    totals: { total, errors, errorRate: total > 0 ? Number((errors / total).toFixed(4)) : 0 },
+    peak,
+    firstError: series.find((bucket) => bucket.errors > 0) || null,
+  };
+}
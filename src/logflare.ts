@@ -1,72 +1,273 @@
 /**
- * Logflare API client functions.
+ * Logflare API client.
  */
 
-import { LOGFLARE_API_BASE_URL } from "./config.js";
-import { LogflareApiConfig } from "./types.js";
+import {
+  LOGFLARE_API_BASE_URL,
+  LOGFLARE_MAX_RETRIES,
+  LOGFLARE_REQUEST_TIMEOUT_MS,
+  LOGFLARE_RETRY_BASE_DELAY_MS,
+  QUERY_CACHE_TTL_MS,
+  RELATIVE_QUERY_CACHE_TTL_MS,
+  SCHEMA_CACHE_TTL_MS,
+  SOURCES_CACHE_TTL_MS,
+} from "./config.js";
+import { isRelativeTimeQuery, normalizeSql } from "./cache.js";
+import {
+  LogflareApiError,
+  LogflareAuthError,
+  LogflareNotFoundError,
+  LogflareQuotaError,
+  LogflareSqlError,
+  LogflareTimeoutError,
+} from "./errors.js";
+import { LogflareApiConfig, LogflareClientOptions, LogflareSource } from "./types.js";
+import { hashApiKey } from "./utils.js";
 
 /**
- * Executes a BigQuery SQL query against Logflare.
+ * Shared client for the Logflare management and query APIs. Every request
+ * is bounded by a timeout and retried with exponential backoff on 429/5xx
+ * responses and network failures. With a `cache`, responses are cached per
+ * API key: sources and schemas for minutes, queries relative to the current
+ * time only briefly.
  */
-export async function executeQuery(
-  sql: string,
-  config: LogflareApiConfig
-): Promise<unknown> {
-  const params = new URLSearchParams({ bq_sql: sql });
-  params.append("source", config.sourceToken);
-
-  const response = await fetch(`${LOGFLARE_API_BASE_URL}/api/query?${params.toString()}`, {
-    headers: {
-      Authorization: `Bearer ${config.apiKey}`,
-      Accept: "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Logflare API Error: ${await response.text()}`);
-  }
-
-  const data = await response.json();
-  return data.result || data;
+export class LogflareClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly cacheKeyPrefix: string;
+
+  constructor(
+    private readonly config: LogflareApiConfig,
+    private readonly options: LogflareClientOptions = {}
+  ) {
+    this.baseUrl = (options.baseUrl || LOGFLARE_API_BASE_URL).replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? LOGFLARE_REQUEST_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? LOGFLARE_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? LOGFLARE_RETRY_BASE_DELAY_MS;
+    this.cacheKeyPrefix = hashApiKey(config.apiKey);
+  }
+
+  /**
+   * Returns a client that skips cached responses, still caching the fresh ones.
+   */
+  withoutCache(): LogflareClient {
+    return new LogflareClient(this.config, { ...this.options, bypassCache: true });
+  }
+
+  /**
+   * Executes a BigQuery SQL query against Logflare, scoped to the given
+   * source or, by default, the primary one.
+   */
+  async executeQuery(
+    sql: string,
+    sourceToken: string | undefined = this.config.sourceToken
+  ): Promise<Record<string, unknown>[]> {
+    const ttlMs = isRelativeTimeQuery(sql) ? RELATIVE_QUERY_CACHE_TTL_MS : QUERY_CACHE_TTL_MS;
+    return this.cached(`query:${sourceToken ?? ""}:${normalizeSql(sql)}`, ttlMs, async () => {
+      const params = new URLSearchParams({ bq_sql: sql });
+      if (sourceToken) {
+        params.append("source", sourceToken);
+      }
+
+      const data = (await this.request(`/api/query?${params.toString()}`)) as {
+        result?: unknown;
+        error?: unknown;
+      };
+
+      if (data && data.error) {
+        throw new LogflareSqlError(extractErrorMessage(data.error), 400);
+      }
+
+      if (Array.isArray(data)) {
+        return data;
+      }
+
+      return Array.isArray(data?.result) ? (data.result as Record<string, unknown>[]) : [];
+    });
+  }
+
+  /**
+   * Fetches all Logflare sources visible to the API key.
+   */
+  async listSources(): Promise<LogflareSource[]> {
+    return this.cached("sources", SOURCES_CACHE_TTL_MS, async () => {
+      const data = await this.request("/api/sources");
+      const sources = Array.isArray(data) ? data : (data as { sources?: unknown[] }).sources || [];
+
+      return (sources as Partial<LogflareSource>[]).map((source) => ({
+        id: source.id !== undefined ? String(source.id) : "",
+        name: source.name || "",
+        token: source.token || "",
+        description: source.description || "",
+      }));
+    });
+  }
+
+  /**
+   * Fetches the schema for a Logflare source.
+   */
+  async getSourceSchema(sourceToken: string): Promise<unknown> {
+    return this.cached(`schema:${sourceToken}`, SCHEMA_CACHE_TTL_MS, () =>
+      this.request(`/api/sources/${encodeURIComponent(sourceToken)}/schema`)
+    );
+  }
+
+  /**
+   * Serves a response from the shared cache when one is configured.
+   */
+  private cached<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const { cache, bypassCache = false } = this.options;
+    if (!cache) {
+      return load();
+    }
+    return cache.get(`${this.cacheKeyPrefix}:${key}`, ttlMs, load, bypassCache);
+  }
+
+  /**
+   * Performs an authenticated GET request, retrying transient failures.
+   */
+  private async request(path: string): Promise<unknown> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.attempt(path);
+      } catch (error: unknown) {
+        const retryAfterMs = error instanceof RetryableError ? error.retryAfterMs : null;
+        const retryable = error instanceof RetryableError || isNetworkError(error);
+
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error instanceof RetryableError ? error.error : error;
+        }
+
+        const backoffMs = this.retryBaseDelayMs * 2 ** attempt;
+        const jitterMs = Math.random() * this.retryBaseDelayMs;
+        await sleep(retryAfterMs ?? backoffMs + jitterMs);
+        attempt++;
+      }
+    }
+  }
+
+  /**
+   * Performs a single request attempt and maps failures to typed errors.
+   */
+  private async attempt(path: string): Promise<unknown> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          Accept: "application/json",
+        },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new RetryableError(
+          new LogflareTimeoutError(`Logflare API request timed out after ${this.timeoutMs}ms`),
+          null
+        );
+      }
+      throw error;
+    }
+
+    if (response.ok) {
+      return await response.json();
+    }
+
+    const message = extractErrorMessage(await response.text());
+    const error = createApiError(response.status, message, path);
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableError(error, parseRetryAfter(response.headers.get("retry-after")));
+    }
+
+    throw error;
+  }
 }
 
 /**
- * Fetches all available Logflare sources.
+ * Wraps an error that should be retried, carrying an optional server-provided delay.
  */
-export async function listSources(config: LogflareApiConfig): Promise<unknown> {
-  const response = await fetch(`${LOGFLARE_API_BASE_URL}/api/sources`, {
-    headers: {
-      Authorization: `Bearer ${config.apiKey}`,
-      Accept: "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Logflare API Error: ${await response.text()}`);
+class RetryableError extends Error {
+  constructor(
+    public readonly error: LogflareApiError,
+    public readonly retryAfterMs: number | null
+  ) {
+    super(error.message);
   }
+}
 
-  return await response.json();
+/**
+ * Maps an HTTP error status to the matching typed error.
+ */
+function createApiError(status: number, message: string, path: string): LogflareApiError {
+  const text = `Logflare API Error (${status}): ${message}`;
+
+  if (status === 401 || status === 403) {
+    return new LogflareAuthError(text, status);
+  }
+  if (status === 402 || status === 429) {
+    return new LogflareQuotaError(text, status);
+  }
+  if (status === 404) {
+    return new LogflareNotFoundError(text, status);
+  }
+  if (status === 400 && path.startsWith("/api/query")) {
+    return new LogflareSqlError(text, status);
+  }
+  return new LogflareApiError(text, status);
 }
 
 /**
- * Fetches the schema for a specific Logflare source.
+ * Pulls a readable message out of a Logflare error payload.
  */
-export async function getSourceSchema(config: LogflareApiConfig): Promise<unknown> {
-  const response = await fetch(
-    `${LOGFLARE_API_BASE_URL}/api/sources/${config.sourceToken}/schema`,
-    {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${config.apiKey}`,
-        "Content-Type": "application/json",
-      },
+function extractErrorMessage(payload: unknown): string {
+  if (typeof payload === "string") {
+    try {
+      return extractErrorMessage(JSON.parse(payload));
+    } catch {
+      return payload;
     }
-  );
+  }
+
+  if (payload && typeof payload === "object") {
+    const { error, message } = payload as { error?: unknown; message?: unknown };
+    if (error !== undefined) {
+      return extractErrorMessage(error);
+    }
+    if (typeof message === "string") {
+      return message;
+    }
+  }
+
+  return JSON.stringify(payload);
+}
 
-  if (!response.ok) {
-    throw new Error(`Logflare API Error: ${await response.text()}`);
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
   }
 
-  return await response.json();
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
 }
 
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError && error.message === "fetch failed";
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
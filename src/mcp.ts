@@ -0,0 +1,123 @@
+/**
+ * MCP server factory shared by the HTTP and stdio entrypoints.
+ */
+
+import {
+  McpServer,
+  RegisteredPrompt,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LogflareClient } from "./logflare.js";
+import { ResponseCache } from "./cache.js";
+import { ExportStore } from "./exports.js";
+import { RESPONSE_CACHE_MAX_SIZE } from "./config.js";
+import { SourceScope } from "./sources.js";
+import { hashApiKey } from "./utils.js";
+import { LogflareApiConfig, SavedQueryStore } from "./types.js";
+import { registerTools } from "./tools.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+
+/**
+ * Logflare responses, shared by every connection in the process and keyed
+ * by API key.
+ */
+const responseCache = new ResponseCache(RESPONSE_CACHE_MAX_SIZE);
+
+/**
+ * The tools a client must be allowed for each prompt, as the prompt embeds
+ * the log data those tools would return.
+ */
+const PROMPT_TOOLS: Record<string, string[]> = {
+  investigate_incident: ["top_values", "cluster_log_messages", "profile_fields"],
+  summarize_errors: ["top_values", "cluster_log_messages"],
+  explain_source: ["top_values", "profile_fields"],
+};
+
+/**
+ * The tools a client must be allowed for each resource, as the resource
+ * returns the same data as those tools.
+ */
+const RESOURCE_TOOLS: Record<string, string[]> = {
+  sources: ["list_sources"],
+  "source-schema": ["get_source_schema"],
+  "source-fields": ["profile_fields"],
+  "saved-queries": ["list_saved_queries"],
+  "query-export": ["export_query"],
+};
+
+/**
+ * Removes every tool outside `allowedTools` as soon as it is registered, so
+ * clients can neither list nor call it. Prompts and resources are removed
+ * too unless every tool they require is allowed; ones missing from the
+ * tables above are always removed.
+ */
+function restrictTools(server: McpServer, allowedTools: string[]): void {
+  const registerTool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => RegisteredTool;
+  const registerPrompt = server.prompt.bind(server) as (name: string, ...rest: unknown[]) => RegisteredPrompt;
+  const registerResource = server.resource.bind(server) as (
+    name: string,
+    ...rest: unknown[]
+  ) => RegisteredResource | RegisteredResourceTemplate;
+  const permits = (requiredTools: Record<string, string[]>, name: string) =>
+    Object.hasOwn(requiredTools, name) && requiredTools[name].every((tool) => allowedTools.includes(tool));
+
+  server.tool = ((name: string, ...rest: unknown[]) => {
+    const tool = registerTool(name, ...rest);
+    if (!allowedTools.includes(name)) {
+      tool.remove();
+    }
+    return tool;
+  }) as McpServer["tool"];
+
+  server.prompt = ((name: string, ...rest: unknown[]) => {
+    const prompt = registerPrompt(name, ...rest);
+    if (!permits(PROMPT_TOOLS, name)) {
+      prompt.remove();
+    }
+    return prompt;
+  }) as McpServer["prompt"];
+
+  server.resource = ((name: string, ...rest: unknown[]) => {
+    const resource = registerResource(name, ...rest);
+    if (!permits(RESOURCE_TOOLS, name)) {
+      resource.remove();
+    }
+    return resource;
+  }) as McpServer["resource"];
+}
+
+/**
+ * Creates an MCP server instance with all tools, resources and prompts
+ * registered for the given config. Saved queries and exports are shared
+ * by every connection using the same API key and, when the server
+ * authenticates clients, the same client, as clients sharing a key may be
+ * allowed different sources and tools.
+ */
+export function createMcpServer(
+  config: LogflareApiConfig,
+  savedQueries: SavedQueryStore,
+  queryExports: ExportStore
+): McpServer {
+  const server = new McpServer({
+    name: "logflare-mcp",
+    version: "1.0.0",
+  });
+
+  if (config.allowedTools) {
+    restrictTools(server, config.allowedTools);
+  }
+
+  const client = new LogflareClient(config, { cache: responseCache });
+  const scope = new SourceScope(client, config);
+
+  const owner = config.clientId ? `${hashApiKey(config.apiKey)}:${config.clientId}` : hashApiKey(config.apiKey);
+
+  registerTools(server, client, scope, savedQueries, queryExports, owner);
+  registerResources(server, client, scope, savedQueries, queryExports, owner);
+  registerPrompts(server, client, scope);
+
+  return server;
+}
@@ -0,0 +1,301 @@
+/**
+ * Minimal Parquet writer for query exports ("Parquet-lite"): flat optional
+ * columns, one row group, PLAIN encoding and no compression. Readable by
+ * any Parquet reader (DuckDB, pandas, Spark). Nested values are written as
+ * JSON strings.
+ */
+
+const MAGIC = Buffer.from("PAR1");
+
+// Parquet enums, from parquet.thrift.
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, TIMESTAMP_MICROS: 10 } as const;
+const OPTIONAL = 1;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+const UNCOMPRESSED = 0;
+const DATA_PAGE = 0;
+
+// Thrift compact protocol field types.
+const ThriftType = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+
+type ThriftValue =
+  | { type: "i32"; value: number }
+  | { type: "i64"; value: number }
+  | { type: "string"; value: string }
+  | { type: "list"; itemType: "i32" | "string" | "struct"; items: Array<number | string | ThriftStruct> }
+  | { type: "struct"; value: ThriftStruct };
+
+/** Struct fields by field id; undefined fields are omitted. */
+type ThriftStruct = Array<[number, ThriftValue | undefined]>;
+
+const i32 = (value: number): ThriftValue => ({ type: "i32", value });
+const i64 = (value: number): ThriftValue => ({ type: "i64", value });
+const str = (value: string): ThriftValue => ({ type: "string", value });
+const struct = (value: ThriftStruct): ThriftValue => ({ type: "struct", value });
+
+function varint(value: bigint): number[] {
+  const bytes: number[] = [];
+  let rest = value;
+  while (rest >= 0x80n) {
+    bytes.push(Number(rest & 0x7fn) | 0x80);
+    rest >>= 7n;
+  }
+  bytes.push(Number(rest));
+  return bytes;
+}
+
+function zigzag(value: number): number[] {
+  const big = BigInt(value);
+  return varint(big >= 0n ? big << 1n : (-big << 1n) - 1n);
+}
+
+function thriftTypeId(value: ThriftValue | "i32" | "string" | "struct"): number {
+  const type = typeof value === "string" ? value : value.type;
+  switch (type) {
+    case "i32":
+      return ThriftType.I32;
+    case "i64":
+      return ThriftType.I64;
+    case "string":
+      return ThriftType.BINARY;
+    case "list":
+      return ThriftType.LIST;
+    default:
+      return ThriftType.STRUCT;
+  }
+}
+
+/**
+ * Encodes a struct with the Thrift compact protocol, as Parquet metadata is.
+ */
+function encodeStruct(fields: ThriftStruct): number[] {
+  const bytes: number[] = [];
+  let lastId = 0;
+
+  const encodeString = (value: string) => {
+    const data = Buffer.from(value, "utf8");
+    bytes.push(...varint(BigInt(data.length)), ...data);
+  };
+
+  for (const [id, value] of fields) {
+    if (!value) {
+      continue;
+    }
+    const delta = id - lastId;
+    if (delta > 0 && delta <= 15) {
+      bytes.push((delta << 4) | thriftTypeId(value));
+    } else {
+      bytes.push(thriftTypeId(value), ...zigzag(id));
+    }
+    lastId = id;
+
+    switch (value.type) {
+      case "i32":
+      case "i64":
+        bytes.push(...zigzag(value.value));
+        break;
+      case "string":
+        encodeString(value.value);
+        break;
+      case "struct":
+        bytes.push(...encodeStruct(value.value));
+        break;
+      case "list": {
+        const itemType = thriftTypeId(value.itemType);
+        if (value.items.length < 15) {
+          bytes.push((value.items.length << 4) | itemType);
+        } else {
+          bytes.push(0xf0 | itemType, ...varint(BigInt(value.items.length)));
+        }
+        for (const item of value.items) {
+          if (typeof item === "number") {
+            bytes.push(...zigzag(item));
+          } else if (typeof item === "string") {
+            encodeString(item);
+          } else {
+            bytes.push(...encodeStruct(item));
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  bytes.push(0);
+  return bytes;
+}
+
+interface Column {
+  name: string;
+  type: number;
+  convertedType?: number;
+  values: unknown[];
+}
+
+/**
+ * Picks the narrowest physical type holding every non-null value of a column.
+ */
+function inferColumn(name: string, values: unknown[]): Column {
+  const present = values.filter((value) => value !== null && value !== undefined);
+  if (present.length > 0 && present.every((value) => typeof value === "boolean")) {
+    return { name, type: PhysicalType.BOOLEAN, values };
+  }
+  if (present.length > 0 && present.every((value) => Number.isSafeInteger(value))) {
+    const convertedType = name === "timestamp" ? ConvertedType.TIMESTAMP_MICROS : undefined;
+    return { name, type: PhysicalType.INT64, convertedType, values };
+  }
+  if (present.length > 0 && present.every((value) => typeof value === "number")) {
+    return { name, type: PhysicalType.DOUBLE, values };
+  }
+  return { name, type: PhysicalType.BYTE_ARRAY, convertedType: ConvertedType.UTF8, values };
+}
+
+/**
+ * Encodes definition levels (1 = present, 0 = null) with the RLE/bit-packed
+ * hybrid encoding, as runs, prefixed by their byte length.
+ */
+function encodeDefinitionLevels(values: unknown[]): Buffer {
+  const runs: number[] = [];
+  let index = 0;
+  while (index < values.length) {
+    const present = values[index] !== null && values[index] !== undefined ? 1 : 0;
+    let end = index;
+    while (end < values.length && (values[end] !== null && values[end] !== undefined ? 1 : 0) === present) {
+      end++;
+    }
+    runs.push(...varint(BigInt(end - index) << 1n), present);
+    index = end;
+  }
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(runs.length);
+  return Buffer.concat([length, Buffer.from(runs)]);
+}
+
+function encodeValues(column: Column): Buffer {
+  const present = column.values.filter((value) => value !== null && value !== undefined);
+
+  switch (column.type) {
+    case PhysicalType.BOOLEAN: {
+      const buffer = Buffer.alloc(Math.ceil(present.length / 8));
+      present.forEach((value, i) => {
+        if (value) {
+          buffer[i >> 3] |= 1 << (i & 7);
+        }
+      });
+      return buffer;
+    }
+    case PhysicalType.INT64: {
+      const buffer = Buffer.alloc(present.length * 8);
+      present.forEach((value, i) => buffer.writeBigInt64LE(BigInt(value as number), i * 8));
+      return buffer;
+    }
+    case PhysicalType.DOUBLE: {
+      const buffer = Buffer.alloc(present.length * 8);
+      present.forEach((value, i) => buffer.writeDoubleLE(value as number, i * 8));
+      return buffer;
+    }
+    default:
+      return Buffer.concat(
+        present.flatMap((value) => {
+          const data = Buffer.from(typeof value === "string" ? value : JSON.stringify(value), "utf8");
+          const length = Buffer.alloc(4);
+          length.writeUInt32LE(data.length);
+          return [length, data];
+        })
+      );
+  }
+}
+
+/**
+ * Writes rows as a Parquet file with one optional column per top-level
+ * field seen in any row.
+ */
+export function encodeParquet(rows: Record<string, unknown>[]): Buffer {
+  const names = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const columns = names.map((name) => inferColumn(name, rows.map((row) => row[name])));
+
+  const chunks: Buffer[] = [MAGIC];
+  let offset = MAGIC.length;
+  const columnChunks: ThriftStruct[] = [];
+
+  for (const column of columns) {
+    const page = Buffer.concat([encodeDefinitionLevels(column.values), encodeValues(column)]);
+    const header = Buffer.from(
+      encodeStruct([
+        [1, i32(DATA_PAGE)],
+        [2, i32(page.length)],
+        [3, i32(page.length)],
+        [
+          5,
+          struct([
+            [1, i32(rows.length)],
+            [2, i32(Encoding.PLAIN)],
+            [3, i32(Encoding.RLE)],
+            [4, i32(Encoding.RLE)],
+          ]),
+        ],
+      ])
+    );
+    const size = header.length + page.length;
+
+    columnChunks.push([
+      [2, i64(offset)],
+      [
+        3,
+        struct([
+          [1, i32(column.type)],
+          [2, { type: "list", itemType: "i32", items: [Encoding.PLAIN, Encoding.RLE] }],
+          [3, { type: "list", itemType: "string", items: [column.name] }],
+          [4, i32(UNCOMPRESSED)],
+          [5, i64(rows.length)],
+          [6, i64(size)],
+          [7, i64(size)],
+          [9, i64(offset)],
+        ]),
+      ],
+    ]);
+    chunks.push(header, page);
+    offset += size;
+  }
+
+  const schema: ThriftStruct[] = [
+    [
+      [4, str("schema")],
+      [5, i32(columns.length)],
+    ],
+    ...columns.map((column): ThriftStruct => [
+      [1, i32(column.type)],
+      [3, i32(OPTIONAL)],
+      [4, str(column.name)],
+      [6, column.convertedType === undefined ? undefined : i32(column.convertedType)],
+    ]),
+  ];
+
+  const footer = Buffer.from(
+    encodeStruct([
+      [1, i32(1)],
+      [2, { type: "list", itemType: "struct", items: schema }],
+      [3, i64(rows.length)],
+      [
+        4,
+        {
+          type: "list",
+          itemType: "struct",
+          items: [
+            [
+              [1, { type: "list", itemType: "struct", items: columnChunks }],
+              [2, i64(offset - MAGIC.length)],
+              [3, i64(rows.length)],
+            ],
+          ],
+        },
+      ],
+      [6, str("logflare-mcp")],
+    ])
+  );
+  const footerLength = Buffer.alloc(4);
+  footerLength.writeUInt32LE(footer.length);
+
+  return Buffer.concat([...chunks, footer, footerLength, MAGIC]);
+}
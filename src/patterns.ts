@@ -0,0 +1,76 @@
+/**
+ * Groups log messages into templates by masking their variable parts.
+ */
+
+import { LogPattern } from "./types.js";
+import { timestampToMs } from "./utils.js";
+
+/**
+ * Masks applied in order; earlier masks take precedence, so a UUID is not
+ * half-masked as numbers and hex ids.
+ */
+const MASKS: Array<[RegExp, string]> = [
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<TIMESTAMP>"],
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, "<EMAIL>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<UUID>"],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g, "<IP>"],
+  [/\b0x[0-9a-f]+\b/gi, "<HEX>"],
+  [/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<HEX>"],
+  [/(?<![A-Za-z<])\d+(?:\.\d+)?/g, "<NUM>"],
+];
+
+/**
+ * Replaces timestamps, emails, UUIDs, IPs, hex ids and numbers with
+ * placeholders, e.g. "took 42ms from 10.0.0.1" becomes "took <NUM>ms from <IP>".
+ * Digits directly after a letter are kept, so names like "v2" survive.
+ */
+export function maskMessage(message: string): string {
+  return MASKS.reduce((masked, [pattern, placeholder]) => masked.replace(pattern, placeholder), message)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Clusters rows by masked `event_message`, most frequent pattern first.
+ */
+export function clusterMessages(rows: Record<string, unknown>[], maxPatterns: number): LogPattern[] {
+  const clusters = new Map<string, { pattern: LogPattern; first: number; last: number }>();
+
+  for (const row of rows) {
+    const message = String(row.event_message ?? "");
+    const key = maskMessage(message);
+    const time = row.timestamp === undefined || row.timestamp === null ? NaN : timestampToMs(row.timestamp);
+
+    const cluster = clusters.get(key);
+    if (!cluster) {
+      clusters.set(key, {
+        pattern: {
+          pattern: key,
+          count: 1,
+          firstSeen: null,
+          lastSeen: null,
+          example: message,
+          sampleMetadata: row.metadata ?? null,
+        },
+        first: time,
+        last: time,
+      });
+      continue;
+    }
+
+    cluster.pattern.count++;
+    if (!isNaN(time)) {
+      cluster.first = isNaN(cluster.first) ? time : Math.min(cluster.first, time);
+      cluster.last = isNaN(cluster.last) ? time : Math.max(cluster.last, time);
+    }
+  }
+
+  return [...clusters.values()]
+    .sort((a, b) => b.pattern.count - a.pattern.count)
+    .slice(0, maxPatterns)
+    .map(({ pattern, first, last }) => ({
+      ...pattern,
+      firstSeen: isNaN(first) ? null : new Date(first).toISOString(),
+      lastSeen: isNaN(last) ? null : new Date(last).toISOString(),
+    }));
+}
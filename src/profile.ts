@@ -0,0 +1,300 @@
+/**
+ * Field profiling: merges the source schema with sampled logs and computes
+ * per-field statistics server-side.
+ */
+
+import { MAX_PROFILED_FIELDS } from "./config.js";
+import { LogflareClient } from "./logflare.js";
+import { QueryBuilder, aliased, nestedFieldValue, raw, sql } from "./queryBuilder.js";
+import { FieldProfile, FieldTopValue, LogflareSource, SchemaField } from "./types.js";
+import { parseTimeToTimestamp } from "./utils.js";
+
+const TYPE_ALIASES: Record<string, string> = {
+  INTEGER: "INT64",
+  INT: "INT64",
+  FLOAT: "FLOAT64",
+  NUMBER: "FLOAT64",
+  NUMERIC: "FLOAT64",
+  BOOLEAN: "BOOL",
+  STRUCT: "RECORD",
+  OBJECT: "RECORD",
+};
+
+/**
+ * Normalizes BigQuery and JSON schema type names to BigQuery standard SQL
+ * names, e.g. "integer" to INT64.
+ */
+function normalizeType(type: string): string {
+  const upper = type.toUpperCase();
+  return TYPE_ALIASES[upper] || upper;
+}
+
+/**
+ * Flattens a schema response into dotted field paths. Accepts the same
+ * shapes as `extractSchemaColumns`, but walks nested records and arrays.
+ */
+export function flattenSchema(
+  schema: unknown,
+  prefix = "",
+  fields = new Map<string, SchemaField>()
+): Map<string, SchemaField> {
+  if (!schema || typeof schema !== "object") {
+    return fields;
+  }
+
+  const join = (name: string) => (prefix ? `${prefix}.${name}` : name);
+
+  if (Array.isArray(schema)) {
+    for (const field of schema as Array<Record<string, unknown>>) {
+      if (!field || typeof field.name !== "string") {
+        continue;
+      }
+      const path = join(field.name);
+      fields.set(path, {
+        type: normalizeType(String(field.type || "RECORD")),
+        repeated: String(field.mode || "").toUpperCase() === "REPEATED",
+      });
+      if (Array.isArray(field.fields)) {
+        flattenSchema(field.fields, path, fields);
+      }
+    }
+    return fields;
+  }
+
+  const record = schema as Record<string, unknown>;
+  if (Array.isArray(record.fields)) {
+    return flattenSchema(record.fields, prefix, fields);
+  }
+  if (record.schema && typeof record.schema === "object") {
+    return flattenSchema(record.schema, prefix, fields);
+  }
+
+  const properties =
+    record.properties && typeof record.properties === "object"
+      ? (record.properties as Record<string, unknown>)
+      : record;
+
+  for (const [name, definition] of Object.entries(properties)) {
+    const path = join(name);
+    if (typeof definition === "string") {
+      fields.set(path, { type: normalizeType(definition), repeated: false });
+      continue;
+    }
+    if (!definition || typeof definition !== "object") {
+      continue;
+    }
+
+    const property = definition as Record<string, unknown>;
+    if (typeof property.type !== "string") {
+      // Nested map without type information, e.g. { metadata: { user: "string" } }
+      fields.set(path, { type: "RECORD", repeated: false });
+      flattenSchema(property, path, fields);
+      continue;
+    }
+
+    const repeated = property.type === "array";
+    const element =
+      repeated && property.items && typeof property.items === "object"
+        ? (property.items as Record<string, unknown>)
+        : property;
+    fields.set(path, {
+      type: typeof element.type === "string" && element.type !== "array" ? normalizeType(element.type) : "RECORD",
+      repeated,
+    });
+    if (element.properties && typeof element.properties === "object") {
+      flattenSchema({ properties: element.properties }, path, fields);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Infers the BigQuery type of a sampled value.
+ */
+function inferType(path: string, value: unknown): string {
+  if (typeof value === "boolean") {
+    return "BOOL";
+  }
+  if (typeof value === "number") {
+    return path === "timestamp" ? "TIMESTAMP" : Number.isInteger(value) ? "INT64" : "FLOAT64";
+  }
+  if (typeof value === "string") {
+    return /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(value) ? "TIMESTAMP" : "STRING";
+  }
+  return "RECORD";
+}
+
+/**
+ * Combines two observed types, widening INT64 to FLOAT64 and falling back
+ * to STRING for anything else that disagrees.
+ */
+function mergeTypes(a: string, b: string): string {
+  if (a === b) {
+    return a;
+  }
+  if ((a === "INT64" && b === "FLOAT64") || (a === "FLOAT64" && b === "INT64")) {
+    return "FLOAT64";
+  }
+  return "STRING";
+}
+
+interface SampledField {
+  type: string | null;
+  repeated: boolean;
+  present: number;
+}
+
+/**
+ * Walks sampled rows, including arrays of records, recording each path's
+ * inferred type and in how many rows it held a non-null value.
+ */
+export function profileSamples(rows: Record<string, unknown>[]): Map<string, SampledField> {
+  const fields = new Map<string, SampledField>();
+
+  const visit = (value: unknown, path: string, repeated: boolean, seen: Set<string>): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, path, true, seen));
+      if (value.length === 0) {
+        note(path, null, true, seen);
+      }
+      return;
+    }
+    note(path, value, repeated, seen);
+    if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        visit(child, `${path}.${key}`, false, seen);
+      }
+    }
+  };
+
+  const note = (path: string, value: unknown, repeated: boolean, seen: Set<string>): void => {
+    const field = fields.get(path) || { type: null, repeated: false, present: 0 };
+    field.repeated = field.repeated || repeated;
+    if (value !== null && value !== undefined) {
+      const type = inferType(path, value);
+      field.type = field.type ? mergeTypes(field.type, type) : type;
+      if (!seen.has(path)) {
+        seen.add(path);
+        field.present++;
+      }
+    }
+    fields.set(path, field);
+  };
+
+  for (const row of rows) {
+    const seen = new Set<string>();
+    for (const [key, value] of Object.entries(row)) {
+      visit(value, key, false, seen);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Merges schema fields with sampled fields. The schema's type wins when
+ * both know a field.
+ */
+export function mergeFieldProfiles(
+  schemaFields: Map<string, SchemaField>,
+  sampled: Map<string, SampledField>,
+  sampleSize: number
+): FieldProfile[] {
+  const paths = new Set([...schemaFields.keys(), ...sampled.keys()]);
+
+  return [...paths].sort().map((path) => {
+    const schemaField = schemaFields.get(path);
+    const sampledField = sampled.get(path);
+    return {
+      path,
+      type: schemaField?.type || sampledField?.type || "STRING",
+      repeated: schemaField?.repeated || sampledField?.repeated || false,
+      foundIn: schemaField && sampledField ? "both" : schemaField ? "schema" : "sample",
+      sampleNullRate:
+        sampledField && sampleSize > 0 ? Number((1 - sampledField.present / sampleSize).toFixed(4)) : null,
+    };
+  });
+}
+
+/**
+ * Lists a source's fields by merging its schema with the most recent
+ * `sampleSize` logs since the given time.
+ */
+export async function discoverFields(
+  client: LogflareClient,
+  source: LogflareSource,
+  since: string,
+  sampleSize: number
+): Promise<{ profiles: FieldProfile[]; sampledLogs: number }> {
+  const schemaFields = flattenSchema(await client.getSourceSchema(source.token));
+
+  const sampleSql = QueryBuilder.from(source.name)
+    .where(sql`timestamp >= ${raw(parseTimeToTimestamp(since))}`)
+    .orderBy("timestamp", "DESC")
+    .limit(sampleSize)
+    .build();
+  const samples = await client.executeQuery(sampleSql, source.token);
+
+  return {
+    profiles: mergeFieldProfiles(schemaFields, profileSamples(samples), samples.length),
+    sampledLogs: samples.length,
+  };
+}
+
+/**
+ * Compiles one aggregate query computing null count, approximate distinct
+ * count and top values for each scalar field.
+ */
+export function compileFieldStats(
+  source: LogflareSource,
+  paths: string[],
+  since: string,
+  topValues: number
+): string {
+  if (paths.length === 0 || paths.length > MAX_PROFILED_FIELDS) {
+    throw new Error(`Profile between 1 and ${MAX_PROFILED_FIELDS} fields at a time.`);
+  }
+
+  const values = QueryBuilder.from(source.name)
+    .select(...paths.map((path, index) => aliased(nestedFieldValue(path), `v${index}`)))
+    .where(sql`timestamp >= ${raw(parseTimeToTimestamp(since))}`);
+
+  return QueryBuilder.fromSubquery(values.build())
+    .select(
+      aliased(raw("COUNT(*)"), "total"),
+      ...paths.flatMap((_, index) => [
+        aliased(raw(`COUNTIF(v${index} IS NULL)`), `nulls_${index}`),
+        aliased(raw(`APPROX_COUNT_DISTINCT(v${index})`), `distinct_${index}`),
+        aliased(raw(`APPROX_TOP_COUNT(v${index}, ${topValues})`), `top_${index}`),
+      ])
+    )
+    .build();
+}
+
+/**
+ * Adds the statistics from `compileFieldStats` to the profiles of the
+ * given paths.
+ */
+export function applyFieldStats(
+  profiles: FieldProfile[],
+  paths: string[],
+  row: Record<string, unknown> | undefined
+): void {
+  const total = Number(row?.total || 0);
+  paths.forEach((path, index) => {
+    const profile = profiles.find((candidate) => candidate.path === path);
+    if (!profile || !row) {
+      return;
+    }
+
+    const top = Array.isArray(row[`top_${index}`]) ? (row[`top_${index}`] as Array<Record<string, unknown>>) : [];
+    profile.nullRate = total > 0 ? Number((Number(row[`nulls_${index}`] || 0) / total).toFixed(4)) : 0;
+    profile.approxDistinct = Number(row[`distinct_${index}`] || 0);
+    profile.topValues = top.map(
+      (entry): FieldTopValue => ({
+        value: entry.value === null || entry.value === undefined ? null : String(entry.value),
+        count: Number(entry.count || 0),
+        percent: total > 0 ? Number(((Number(entry.count || 0) / total) * 100).toFixed(2)) : 0,
+      })
+    );
+  });
+}
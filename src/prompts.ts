@@ -0,0 +1,212 @@
+/**
+ * MCP prompt definitions for common investigation workflows. Each prompt
+ * embeds the current schema and stats of the source it is about.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import { ERROR_LEVELS } from "./config.js";
+import { buildTopValues, compileTopValues } from "./facets.js";
+import { LogflareClient } from "./logflare.js";
+import { clusterMessages } from "./patterns.js";
+import { discoverFields } from "./profile.js";
+import { getSourceColumns } from "./schema.js";
+import { compileLogSearch, levelPath } from "./search.js";
+import { SourceScope } from "./sources.js";
+import { LogflareSource } from "./types.js";
+
+const MAX_LISTED_FIELDS = 60;
+const ERROR_SAMPLE_SIZE = 500;
+const MAX_LISTED_PATTERNS = 10;
+
+/**
+ * Builds a single user message prompt result.
+ */
+function userPrompt(description: string, text: string) {
+  return {
+    description,
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text },
+      },
+    ],
+  };
+}
+
+/**
+ * Runs a briefing step, describing the failure instead of failing the
+ * prompt when Logflare cannot answer.
+ */
+async function section(title: string, build: () => Promise<string>): Promise<string> {
+  try {
+    return `## ${title}\n${await build()}`;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return `## ${title}\nUnavailable: ${errorMessage}`;
+  }
+}
+
+/**
+ * Describes the source's fields, merged from its schema and recent logs.
+ */
+async function fieldsSection(client: LogflareClient, source: LogflareSource): Promise<string> {
+  return section("Fields", async () => {
+    const { profiles } = await discoverFields(client, source, "7 days ago", 20);
+    const lines = profiles
+      .slice(0, MAX_LISTED_FIELDS)
+      .map((profile) => `- ${profile.path}: ${profile.type}${profile.repeated ? " (repeated)" : ""}`);
+    if (profiles.length > MAX_LISTED_FIELDS) {
+      lines.push(`- ... ${profiles.length - MAX_LISTED_FIELDS} more (see logflare://sources/${encodeURIComponent(source.name)}/fields)`);
+    }
+    return lines.join("\n") || "No fields found.";
+  });
+}
+
+/**
+ * Describes log volume per level over the window.
+ */
+async function levelsSection(
+  client: LogflareClient,
+  source: LogflareSource,
+  since: string,
+  until?: string
+): Promise<string> {
+  return section("Log levels", async () => {
+    const columns = await getSourceColumns(client, source);
+    const topSql = compileTopValues(source, columns, levelPath(columns), { since, until }, 10);
+    const result = buildTopValues(await client.executeQuery(topSql, source.token));
+    const lines = result.values.map(
+      (value) => `- ${value.value ?? "(none)"}: ${value.count} (${value.percent}%)`
+    );
+    return [`Total logs: ${result.total}`, ...lines].join("\n");
+  });
+}
+
+/**
+ * Describes the most frequent error message patterns over the window.
+ */
+async function errorPatternsSection(
+  client: LogflareClient,
+  source: LogflareSource,
+  since: string,
+  until?: string
+): Promise<string> {
+  return section("Top error patterns", async () => {
+    const columns = await getSourceColumns(client, source);
+    const errorSql = compileLogSearch(source, columns, { levels: ERROR_LEVELS, since, until })
+      .orderBy("timestamp", "DESC")
+      .limit(ERROR_SAMPLE_SIZE)
+      .build();
+    const patterns = clusterMessages(await client.executeQuery(errorSql, source.token), MAX_LISTED_PATTERNS);
+    const lines = patterns.map(
+      (pattern) => `- ${pattern.count}x "${pattern.pattern}" (first ${pattern.firstSeen}, last ${pattern.lastSeen})`
+    );
+    return lines.join("\n") || "No errors in this window.";
+  });
+}
+
+/**
+ * Registers all MCP prompts with the server instance.
+ */
+export function registerPrompts(server: McpServer, client: LogflareClient, scope: SourceScope): void {
+  const sourceName = () =>
+    completable(
+      z.string().optional().describe("Source name, id or token. Defaults to the configured source."),
+      async (value) =>
+        (await scope.list())
+          .map((source) => source.name)
+          .filter((name) => name.toLowerCase().startsWith((value || "").toLowerCase()))
+    );
+
+  server.prompt(
+    "investigate_incident",
+    "Investigate an incident: find when it started, what changed and the likely root cause.",
+    {
+      sourceName: sourceName(),
+      since: z.string().optional().describe("Start of the incident window, e.g. '1 hour ago'. Default: '1 hour ago'."),
+      until: z.string().optional().describe("End of the incident window. Default: now."),
+      symptom: z.string().optional().describe("What was observed, e.g. 'checkout returns 500'."),
+    },
+    async ({ sourceName, since = "1 hour ago", until, symptom }) => {
+      const source = await scope.resolve(sourceName);
+      const window = `from ${since} until ${until || "now"}`;
+
+      const text = [
+        `Investigate an incident in the Logflare source '${source.name}' ${window}.`,
+        symptom ? `Reported symptom: ${symptom}` : "",
+        await levelsSection(client, source, since, until),
+        await errorPatternsSection(client, source, since, until),
+        await fieldsSection(client, source),
+        [
+          "## Steps",
+          `1. Use get_log_histogram on '${source.name}' for the window to find when errors started.`,
+          "2. Use detect_anomalies to check whether the volume or error rate is abnormal compared with previous days.",
+          "3. Use cluster_log_messages with levels ['error'] to list the distinct failure modes.",
+          "4. Use get_log_context on the first occurrence of the main failure to see what led up to it.",
+          "5. If the failing logs carry a request or trace id, use trace_request to follow one request across sources.",
+          "6. Use compare_windows with afterSince set to the start of the incident to find what changed.",
+        ].join("\n"),
+        "Finish with a timeline, the most likely root cause, the evidence for it and the affected scope.",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      return userPrompt(`Investigate an incident in ${source.name}`, text);
+    }
+  );
+
+  server.prompt(
+    "summarize_errors",
+    "Summarize the distinct errors in a source over a time window.",
+    {
+      sourceName: sourceName(),
+      since: z.string().optional().describe("Start of the window, e.g. '24 hours ago'. Default: '24 hours ago'."),
+      until: z.string().optional().describe("End of the window. Default: now."),
+    },
+    async ({ sourceName, since = "24 hours ago", until }) => {
+      const source = await scope.resolve(sourceName);
+
+      const text = [
+        `Summarize the errors in the Logflare source '${source.name}' from ${since} until ${until || "now"}.`,
+        await levelsSection(client, source, since, until),
+        await errorPatternsSection(client, source, since, until),
+        [
+          "## Steps",
+          "Group the errors above into distinct failure modes. For each, give the count, when it was first and last " +
+            "seen, its likely cause and its severity.",
+          "Use cluster_log_messages, top_values or search_logs if you need more detail.",
+          "List the failure modes most urgent first.",
+        ].join("\n"),
+      ].join("\n\n");
+
+      return userPrompt(`Summarize errors in ${source.name}`, text);
+    }
+  );
+
+  server.prompt(
+    "explain_source",
+    "Explain what a source logs, its important fields and how to query it.",
+    {
+      sourceName: sourceName(),
+    },
+    async ({ sourceName }) => {
+      const source = await scope.resolve(sourceName);
+
+      const text = [
+        `Explain the Logflare source '${source.name}'${source.description ? ` (${source.description})` : ""}.`,
+        await levelsSection(client, source, "24 hours ago"),
+        await fieldsSection(client, source),
+        [
+          "## Steps",
+          "Describe what this source logs and which fields matter most for debugging.",
+          "Use get_sample_logs to see real events and profile_fields for value distributions.",
+          "Finish with three example search_logs or query_logs calls that would be useful for this source.",
+        ].join("\n"),
+      ].join("\n\n");
+
+      return userPrompt(`Explain ${source.name}`, text);
+    }
+  );
+}
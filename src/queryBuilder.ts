@@ -0,0 +1,241 @@
+/**
+ * Typed BigQuery query builder with literal and identifier escaping.
+ */
+
+import { quoteIdentifier } from "./utils.js";
+
+export type SqlValue = string | number | boolean | null | Date;
+
+const RESERVED_KEYWORDS = new Set([
+  "ALL", "AND", "ANY", "ARRAY", "AS", "ASC", "ASSERT_ROWS_MODIFIED", "AT", "BETWEEN", "BY",
+  "CASE", "CAST", "COLLATE", "CONTAINS", "CREATE", "CROSS", "CUBE", "CURRENT", "DEFAULT",
+  "DEFINE", "DESC", "DISTINCT", "ELSE", "END", "ENUM", "ESCAPE", "EXCEPT", "EXCLUDE",
+  "EXISTS", "EXTRACT", "FALSE", "FETCH", "FOLLOWING", "FOR", "FROM", "FULL", "GROUP",
+  "GROUPING", "GROUPS", "HASH", "HAVING", "IF", "IGNORE", "IN", "INNER", "INTERSECT",
+  "INTERVAL", "INTO", "IS", "JOIN", "LATERAL", "LEFT", "LIKE", "LIMIT", "LOOKUP", "MERGE",
+  "NATURAL", "NEW", "NO", "NOT", "NULL", "NULLS", "OF", "ON", "OR", "ORDER", "OUTER", "OVER",
+  "PARTITION", "PRECEDING", "PROTO", "QUALIFY", "RANGE", "RECURSIVE", "RESPECT", "RIGHT",
+  "ROLLUP", "ROWS", "SELECT", "SET", "SOME", "STRUCT", "TABLESAMPLE", "THEN", "TO", "TREAT",
+  "TRUE", "UNBOUNDED", "UNION", "UNNEST", "USING", "WHEN", "WHERE", "WINDOW", "WITH", "WITHIN",
+]);
+
+/**
+ * A piece of SQL text that is trusted to be embedded as-is.
+ */
+export class SqlFragment {
+  constructor(public readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+/**
+ * Marks generated SQL (e.g. from `parseTimeToTimestamp`) as trusted.
+ */
+export function raw(text: string): SqlFragment {
+  return new SqlFragment(text);
+}
+
+/**
+ * Escapes a JavaScript value as a BigQuery literal.
+ */
+export function literal(value: SqlValue): SqlFragment {
+  if (value === null) {
+    return raw("NULL");
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new Error("Cannot use an invalid date as a SQL literal");
+    }
+    return raw(`TIMESTAMP('${value.toISOString()}')`);
+  }
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot use ${value} as a SQL literal`);
+    }
+    return raw(String(value));
+  }
+  if (typeof value === "boolean") {
+    return raw(value ? "TRUE" : "FALSE");
+  }
+
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+  return raw(`'${escaped}'`);
+}
+
+/**
+ * References a column, quoting each dotted path segment when needed.
+ */
+export function column(path: string): SqlFragment {
+  const segments = path.split(".").map((segment) =>
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment) && !RESERVED_KEYWORDS.has(segment.toUpperCase())
+      ? segment
+      : quoteIdentifier(segment)
+  );
+  return raw(segments.join("."));
+}
+
+/**
+ * Gives an expression an output name.
+ */
+export function aliased(expression: SqlFragment, alias: string): SqlFragment {
+  return raw(`${expression.text} AS ${column(alias).text}`);
+}
+
+/**
+ * Tagged template that escapes interpolated values as literals, while
+ * embedding `SqlFragment` values verbatim.
+ *
+ * Example: sql`level = ${"error"} AND timestamp >= ${raw(start)}`
+ */
+export function sql(strings: TemplateStringsArray, ...values: Array<SqlValue | SqlFragment>): SqlFragment {
+  let text = strings[0];
+  values.forEach((value, index) => {
+    text += (value instanceof SqlFragment ? value : literal(value)).text + strings[index + 1];
+  });
+  return raw(text);
+}
+
+function toColumn(value: string | SqlFragment): SqlFragment {
+  return typeof value === "string" ? column(value) : value;
+}
+
+/**
+ * Builds a single SELECT statement. String arguments are treated as column
+ * names and quoted; anything else must be a `SqlFragment`.
+ */
+export class QueryBuilder {
+  private columns: SqlFragment[] = [];
+  private conditions: SqlFragment[] = [];
+  private groups: SqlFragment[] = [];
+  private orders: SqlFragment[] = [];
+  private rowLimit: number | null = null;
+
+  private constructor(private readonly source: SqlFragment) {}
+
+  /**
+   * Starts a query against a table, quoting its name.
+   */
+  static from(table: string): QueryBuilder {
+    return new QueryBuilder(raw(quoteIdentifier(table)));
+  }
+
+  /**
+   * Starts a query over the rows of a subquery.
+   */
+  static fromSubquery(subquery: string | SqlFragment): QueryBuilder {
+    return new QueryBuilder(raw(`(\n${subquery.toString()}\n)`));
+  }
+
+  select(...columns: Array<string | SqlFragment>): this {
+    this.columns.push(...columns.map(toColumn));
+    return this;
+  }
+
+  /**
+   * Adds a condition; multiple conditions are combined with AND.
+   */
+  where(condition: SqlFragment): this {
+    this.conditions.push(condition);
+    return this;
+  }
+
+  groupBy(...columns: Array<string | SqlFragment>): this {
+    this.groups.push(...columns.map(toColumn));
+    return this;
+  }
+
+  orderBy(value: string | SqlFragment, direction: "ASC" | "DESC" = "ASC"): this {
+    this.orders.push(raw(`${toColumn(value).text} ${direction}`));
+    return this;
+  }
+
+  limit(rows: number): this {
+    if (!Number.isInteger(rows) || rows < 0) {
+      throw new Error(`Invalid LIMIT: ${rows}`);
+    }
+    this.rowLimit = rows;
+    return this;
+  }
+
+  build(): string {
+    const clauses = [
+      `SELECT\n  ${this.columns.length > 0 ? this.columns.map((c) => c.text).join(",\n  ") : "*"}`,
+      `FROM ${this.source.text}`,
+    ];
+
+    if (this.conditions.length > 0) {
+      clauses.push(`WHERE ${this.conditions.map((c) => `(${c.text})`).join("\n  AND ")}`);
+    }
+    if (this.groups.length > 0) {
+      clauses.push(`GROUP BY ${this.groups.map((g) => g.text).join(", ")}`);
+    }
+    if (this.orders.length > 0) {
+      clauses.push(`ORDER BY ${this.orders.map((o) => o.text).join(", ")}`);
+    }
+    if (this.rowLimit !== null) {
+      clauses.push(`LIMIT ${this.rowLimit}`);
+    }
+
+    return clauses.join("\n");
+  }
+}
+
+/**
+ * Unnests every repeated level of a dotted path, returning the UNNEST
+ * joins and the reference to the leaf field. Logflare stores nested
+ * objects such as `metadata` as repeated records.
+ */
+function unnestPath(path: string): { joins: string[]; field: SqlFragment } {
+  const segments = path.split(".");
+  if (segments.some((segment) => segment.length === 0)) {
+    throw new Error(`Invalid field path: '${path}'`);
+  }
+
+  const joins: string[] = [];
+  let parent = column(segments[0]).text;
+  segments.slice(1, -1).forEach((segment, index) => {
+    joins.push(`UNNEST(${parent}) AS _n${index}`);
+    parent = `_n${index}.${column(segment).text}`;
+  });
+  const leafAlias = `_n${joins.length}`;
+  joins.push(`UNNEST(${parent}) AS ${leafAlias}`);
+
+  return { joins, field: raw(`${leafAlias}.${column(segments[segments.length - 1]).text}`) };
+}
+
+/**
+ * Builds a condition on a possibly nested field, wrapping nested paths in
+ * EXISTS over their unnested records.
+ *
+ * Example: nestedFieldCondition("metadata.request.status", (f) => sql`${f} = ${500}`)
+ */
+export function nestedFieldCondition(
+  path: string,
+  condition: (field: SqlFragment) => SqlFragment
+): SqlFragment {
+  if (!path.includes(".")) {
+    return condition(column(path));
+  }
+
+  const { joins, field } = unnestPath(path);
+  return raw(`EXISTS(SELECT 1 FROM ${joins.join(", ")} WHERE ${condition(field).text})`);
+}
+
+/**
+ * Builds a scalar STRING expression for a possibly nested field, taking
+ * the first value when a nested path holds several.
+ */
+export function nestedFieldValue(path: string): SqlFragment {
+  if (!path.includes(".")) {
+    return raw(`CAST(${column(path).text} AS STRING)`);
+  }
+
+  const { joins, field } = unnestPath(path);
+  return raw(`(SELECT CAST(${field.text} AS STRING) FROM ${joins.join(", ")} LIMIT 1)`);
+}
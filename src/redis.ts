@@ -0,0 +1,273 @@
+/**
+ * Minimal Redis client speaking RESP2 over TCP or TLS, enough for the
+ * session store without adding a dependency. Works with any server that
+ * implements the Redis protocol (Redis, Valkey, KeyDB, Memorystore).
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import { REDIS_COMMAND_TIMEOUT_MS, REDIS_CONNECT_TIMEOUT_MS } from "./config.js";
+
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * An error reply sent by the Redis server, as opposed to a connection failure.
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parses one complete reply from the start of `buffer`, returning it with
+ * the number of bytes consumed, or null if more data is needed. An array
+ * holding an error reply is read in full and parsed as that error. Throws
+ * on data that is not RESP2.
+ */
+function parseReply(buffer: Buffer, offset = 0): { reply: RedisReply | RedisReplyError; end: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return null;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+
+  switch (type) {
+    case "+":
+      return { reply: line, end: lineEnd + 2 };
+    case "-":
+      return { reply: new RedisReplyError(line), end: lineEnd + 2 };
+    case ":":
+      return { reply: Number(line), end: lineEnd + 2 };
+    case "$": {
+      const length = parseLength(line);
+      if (length === -1) {
+        return { reply: null, end: lineEnd + 2 };
+      }
+      const end = lineEnd + 2 + length;
+      if (buffer.length < end + 2) {
+        return null;
+      }
+      return { reply: buffer.toString("utf8", lineEnd + 2, end), end: end + 2 };
+    }
+    case "*": {
+      const count = parseLength(line);
+      if (count === -1) {
+        return { reply: null, end: lineEnd + 2 };
+      }
+      const items: RedisReply[] = [];
+      let error: RedisReplyError | null = null;
+      let end = lineEnd + 2;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) {
+          return null;
+        }
+        if (item.reply instanceof RedisReplyError) {
+          error ??= item.reply;
+        } else {
+          items.push(item.reply);
+        }
+        end = item.end;
+      }
+      return { reply: error ?? items, end };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type '${type}'`);
+  }
+}
+
+function parseLength(line: string): number {
+  const length = Number(line);
+  if (!Number.isInteger(length) || length < -1) {
+    throw new Error(`Invalid Redis reply length '${line}'`);
+  }
+  return length;
+}
+
+function encodeCommand(args: Array<string | number>): string {
+  return (
+    `*${args.length}\r\n` +
+    args.map((arg) => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`).join("")
+  );
+}
+
+/**
+ * A single pipelined connection that reconnects on the next command after
+ * it drops. Commands in flight when the connection drops are rejected, and
+ * a command without a reply in time drops the connection, as later replies
+ * could no longer be matched to their commands.
+ */
+export class RedisClient {
+  private readonly url: URL;
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending = new Map<net.Socket, PendingCommand[]>();
+
+  /**
+   * @param url `redis://[:password@]host[:port][/db]`, or `rediss://` for TLS.
+   */
+  constructor(
+    url: string,
+    private readonly timeouts = { connectMs: REDIS_CONNECT_TIMEOUT_MS, commandMs: REDIS_COMMAND_TIMEOUT_MS }
+  ) {
+    this.url = new URL(url);
+    if (this.url.protocol !== "redis:" && this.url.protocol !== "rediss:") {
+      throw new Error(`Unsupported Redis URL '${this.url.protocol}//${this.url.host}': use redis:// or rediss://`);
+    }
+  }
+
+  /**
+   * Sends one command and resolves with its reply.
+   */
+  async command(...args: Array<string | number>): Promise<RedisReply> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Closes the connection, waiting for commands in flight.
+   */
+  async quit(): Promise<void> {
+    if (!this.socket && !this.connecting) {
+      return;
+    }
+    const socket = await this.connect();
+    await this.send(socket, ["QUIT"]);
+    this.drop(socket, new Error("Redis connection closed"));
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RedisReply> {
+    const pending = this.pending.get(socket);
+    if (!pending) {
+      return Promise.reject(new Error("Redis connection closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.drop(socket, new Error(`Redis ${args[0]} timed out after ${this.timeouts.commandMs} ms`));
+      }, this.timeouts.commandMs);
+      pending.push({
+        resolve: (reply) => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<net.Socket> {
+    const host = this.url.hostname || "localhost";
+    const port = Number(this.url.port) || 6379;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connected = () => {
+        clearTimeout(timer);
+        resolve(connection);
+      };
+      const connection =
+        this.url.protocol === "rediss:"
+          ? tls.connect({ host, port, servername: host }, connected)
+          : net.connect({ host, port }, connected);
+      const timer = setTimeout(() => {
+        const message = `Redis connection to ${host}:${port} timed out after ${this.timeouts.connectMs} ms`;
+        connection.destroy(new Error(message));
+      }, this.timeouts.connectMs);
+      connection.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    this.pending.set(socket, []);
+    this.buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => this.receive(socket, chunk));
+    socket.on("error", () => undefined);
+    socket.on("close", () => this.drop(socket, new Error("Redis connection closed")));
+
+    try {
+      if (this.url.password) {
+        const password = decodeURIComponent(this.url.password);
+        const username = decodeURIComponent(this.url.username);
+        await this.send(socket, username ? ["AUTH", username, password] : ["AUTH", password]);
+      }
+      const db = this.url.pathname.slice(1);
+      if (db) {
+        await this.send(socket, ["SELECT", db]);
+      }
+    } catch (error: unknown) {
+      this.drop(socket, error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private receive(socket: net.Socket, chunk: Buffer): void {
+    const pending = this.pending.get(socket);
+    if (!pending) {
+      return;
+    }
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = parseReply(this.buffer);
+      } catch (error: unknown) {
+        this.drop(socket, error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      if (!parsed) {
+        return;
+      }
+      this.buffer = this.buffer.subarray(parsed.end);
+
+      const command = pending.shift();
+      if (parsed.reply instanceof RedisReplyError) {
+        command?.reject(parsed.reply);
+      } else {
+        command?.resolve(parsed.reply);
+      }
+    }
+  }
+
+  /**
+   * Closes a connection and rejects its commands in flight with `error`.
+   */
+  private drop(socket: net.Socket, error: Error): void {
+    if (this.socket === socket) {
+      this.socket = null;
+    }
+    const pending = this.pending.get(socket) ?? [];
+    this.pending.delete(socket);
+    socket.destroy();
+    pending.forEach((command) => command.reject(error));
+  }
+}
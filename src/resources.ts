@@ -0,0 +1,160 @@
+/**
+ * MCP resource definitions exposing sources, schemas, fields, saved
+ * queries and query exports.
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LogflareClient } from "./logflare.js";
+import { ExportStore, exportUri } from "./exports.js";
+import { discoverFields } from "./profile.js";
+import { SourceScope } from "./sources.js";
+import { LogflareSource, SavedQueryStore } from "./types.js";
+
+const FIELD_SAMPLE_SIZE = 50;
+
+/**
+ * Builds a JSON resource result.
+ */
+function jsonContents(uri: URL, value: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Reads a single-valued variable of a resource URI.
+ */
+function uriVariable(variables: Record<string, string | string[]>, key: string): string {
+  const value = variables[key];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Registers all MCP resources with the server instance. Clients are sent a
+ * resource-list-changed notification whenever a source listing differs
+ * from the previous one. Saved queries and exports are scoped to `owner`,
+ * a hash of the connection's API key plus its authenticated client, if any.
+ */
+export function registerResources(
+  server: McpServer,
+  client: LogflareClient,
+  scope: SourceScope,
+  savedQueries: SavedQueryStore,
+  queryExports: ExportStore,
+  owner: string
+): void {
+  scope.onChange(() => server.sendResourceListChanged());
+
+  /**
+   * Lists one resource per source for a per-source URI template.
+   */
+  const perSource = (suffix: string, describe: (source: LogflareSource) => string) => async () => ({
+    resources: (await scope.list()).map((source) => ({
+      uri: `logflare://sources/${encodeURIComponent(source.name)}/${suffix}`,
+      name: `${source.name} ${suffix}`,
+      description: describe(source),
+      mimeType: "application/json",
+    })),
+  });
+
+  const completeSourceName = async (value: string) =>
+    (await scope.list())
+      .map((source) => source.name)
+      .filter((name) => name.toLowerCase().startsWith(value.toLowerCase()));
+
+  server.resource(
+    "sources",
+    "logflare://sources",
+    {
+      description: "Logflare sources this connection may use, with their ids and descriptions.",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const sources = await scope.list();
+      return jsonContents(uri, { sources: sources.map(({ id, name, description }) => ({ id, name, description })) });
+    }
+  );
+
+  server.resource(
+    "source-schema",
+    new ResourceTemplate("logflare://sources/{name}/schema", {
+      list: perSource("schema", (source) => `Schema of the '${source.name}' source.`),
+      complete: { name: completeSourceName },
+    }),
+    {
+      description: "Schema (columns and nested field definitions) of a Logflare source.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const source = await scope.resolve(uriVariable(variables, "name"));
+      return jsonContents(uri, { source: source.name, schema: await client.getSourceSchema(source.token) });
+    }
+  );
+
+  server.resource(
+    "source-fields",
+    new ResourceTemplate("logflare://sources/{name}/fields", {
+      list: perSource("fields", (source) => `Fields of the '${source.name}' source, from its schema and recent logs.`),
+      complete: { name: completeSourceName },
+    }),
+    {
+      description:
+        "Field paths of a Logflare source with their BigQuery types, merged from the schema and recent logs. Use profile_fields for statistics.",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const source = await scope.resolve(uriVariable(variables, "name"));
+      const { profiles, sampledLogs } = await discoverFields(client, source, "7 days ago", FIELD_SAMPLE_SIZE);
+      return jsonContents(uri, { source: source.name, sampledLogs, fields: profiles });
+    }
+  );
+
+  server.resource(
+    "saved-queries",
+    "logflare://saved-queries",
+    {
+      description: "Queries saved with save_query, with their SQL and parameters. Run them with run_saved_query.",
+      mimeType: "application/json",
+    },
+    async (uri) => jsonContents(uri, { queries: await savedQueries.list(owner) })
+  );
+
+  server.resource(
+    "query-export",
+    new ResourceTemplate("logflare://exports/{id}", {
+      list: async () => ({
+        resources: (await queryExports.list(owner)).map((record) => ({
+          uri: exportUri(record.id),
+          name: record.fileName,
+          description: `${record.rows} rows exported at ${record.createdAt}, available until ${record.expiresAt}.`,
+          mimeType: record.mimeType,
+        })),
+      }),
+    }),
+    {
+      description: "Query results exported with export_query, as NDJSON, CSV or Parquet files.",
+    },
+    async (uri, variables) => {
+      const id = uriVariable(variables, "id");
+      const record = await queryExports.get(owner, id);
+      if (!record) {
+        throw new Error(`Export '${id}' was not found or has expired. Run export_query again.`);
+      }
+
+      const data = await queryExports.read(record);
+      return {
+        contents: [
+          record.format === "parquet"
+            ? { uri: uri.href, mimeType: record.mimeType, blob: data.toString("base64") }
+            : { uri: uri.href, mimeType: record.mimeType, text: data.toString("utf8") },
+        ],
+      };
+    }
+  );
+}
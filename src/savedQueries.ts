@@ -0,0 +1,207 @@
+/**
+ * Saved, parameterized SQL templates and their local JSON file store.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { literal } from "./queryBuilder.js";
+import { parseTimeToTimestamp } from "./utils.js";
+import { SavedQuery, SavedQueryParameter, SavedQueryStore } from "./types.js";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const QUERY_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Sample values used to validate a template before any real values exist.
+ */
+const SAMPLE_VALUES: Record<SavedQueryParameter["type"], string> = {
+  string: "sample",
+  number: "0",
+  timestamp: "1 hour ago",
+};
+
+/**
+ * Lists the distinct `{{name}}` placeholders of a template, in order of
+ * first use.
+ */
+export function templateParameters(sql: string): string[] {
+  return [...new Set(Array.from(sql.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))];
+}
+
+/**
+ * Checks a query name and its parameter declarations against the template,
+ * declaring undeclared placeholders as strings.
+ */
+export function defineSavedQuery(
+  name: string,
+  sql: string,
+  declared: Record<string, SavedQueryParameter> = {}
+): Record<string, SavedQueryParameter> {
+  if (!QUERY_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid query name '${name}'. Use up to 64 letters, digits, '_' or '-'.`);
+  }
+  if (name === "__proto__") {
+    throw new Error("Invalid query name '__proto__': the name is reserved.");
+  }
+
+  const placeholders = templateParameters(sql);
+  const unused = Object.keys(declared).filter((parameter) => !placeholders.includes(parameter));
+  if (unused.length > 0) {
+    throw new Error(
+      `Parameters ${unused.map((parameter) => `'${parameter}'`).join(", ")} do not appear in the SQL. ` +
+        "Reference them as {{name}}."
+    );
+  }
+
+  return Object.fromEntries(
+    placeholders.map((parameter) => [
+      parameter,
+      Object.hasOwn(declared, parameter) ? declared[parameter] : { type: "string" as const },
+    ])
+  );
+}
+
+/**
+ * Renders one parameter value as SQL. Timestamps accept the same formats as
+ * the other tools; strings and numbers become escaped literals.
+ */
+function renderValue(name: string, parameter: SavedQueryParameter, value: string): string {
+  switch (parameter.type) {
+    case "timestamp":
+      return parseTimeToTimestamp(value);
+    case "number": {
+      const number = Number(value);
+      if (value.trim() === "" || !Number.isFinite(number)) {
+        throw new Error(`Parameter '${name}' must be a number, got '${value}'`);
+      }
+      return literal(number).text;
+    }
+    case "string":
+      return literal(value).text;
+  }
+}
+
+/**
+ * Substitutes parameter values into a saved query's template. Placeholders
+ * stand for whole SQL values, so templates must not quote them.
+ */
+export function renderSavedQuery(query: SavedQuery, values: Record<string, string> = {}): string {
+  const unknown = Object.keys(values).filter((name) => !Object.hasOwn(query.parameters, name));
+  if (unknown.length > 0) {
+    const known = Object.keys(query.parameters);
+    throw new Error(
+      `Unknown parameters ${unknown.map((name) => `'${name}'`).join(", ")} for '${query.name}'. ` +
+        (known.length > 0 ? `It takes: ${known.join(", ")}.` : "It takes no parameters.")
+    );
+  }
+
+  const missing = Object.keys(query.parameters).filter(
+    (name) => !Object.hasOwn(values, name) && query.parameters[name].default === undefined
+  );
+  if (missing.length > 0) {
+    throw new Error(`Missing values for ${missing.map((name) => `'${name}'`).join(", ")} in '${query.name}'`);
+  }
+
+  return query.sql.replace(PLACEHOLDER_PATTERN, (_placeholder, name: string) => {
+    const parameter = query.parameters[name];
+    return renderValue(name, parameter, Object.hasOwn(values, name) ? values[name] : (parameter.default as string));
+  });
+}
+
+/**
+ * Renders a saved query with defaults or sample values, so the template can
+ * be validated when it is saved.
+ */
+export function renderSampleQuery(query: SavedQuery): string {
+  const values = Object.fromEntries(
+    Object.entries(query.parameters).map(([name, parameter]) => [
+      name,
+      parameter.default ?? SAMPLE_VALUES[parameter.type],
+    ])
+  );
+  return renderSavedQuery(query, values);
+}
+
+type SavedQueryFile = Record<string, Record<string, SavedQuery>>;
+
+/**
+ * Whether the file holds the query as its own entry, rather than a name
+ * shared with `Object.prototype` such as `constructor`.
+ */
+function hasQuery(file: SavedQueryFile, owner: string, name: string): boolean {
+  return Object.hasOwn(file, owner) && Object.hasOwn(file[owner], name);
+}
+
+/**
+ * Stores saved queries of every owner in a single JSON file. Writes are
+ * serialized and replace the file atomically.
+ */
+export class JsonFileSavedQueryStore implements SavedQueryStore {
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async list(owner: string): Promise<SavedQuery[]> {
+    const file = await this.read();
+    return Object.values(Object.hasOwn(file, owner) ? file[owner] : {}).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(owner: string, name: string): Promise<SavedQuery | undefined> {
+    const file = await this.read();
+    return hasQuery(file, owner, name) ? file[owner][name] : undefined;
+  }
+
+  async save(owner: string, query: SavedQuery): Promise<void> {
+    await this.update((file) => {
+      file[owner] = { ...file[owner], [query.name]: query };
+      return true;
+    });
+  }
+
+  async delete(owner: string, name: string): Promise<boolean> {
+    return this.update((file) => {
+      if (!hasQuery(file, owner, name)) {
+        return false;
+      }
+      delete file[owner][name];
+      if (Object.keys(file[owner]).length === 0) {
+        delete file[owner];
+      }
+      return true;
+    });
+  }
+
+  private async read(): Promise<SavedQueryFile> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as SavedQueryFile;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to the file, writing it back only when `change`
+   * reports that something changed.
+   */
+  private update(change: (file: SavedQueryFile) => boolean): Promise<boolean> {
+    const result = this.pending.then(async () => {
+      const file = await this.read();
+      if (!change(file)) {
+        return false;
+      }
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const temporaryPath = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await rename(temporaryPath, this.path);
+      return true;
+    });
+
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Helpers for reading Logflare source schemas.
+ */
+
+import { LogflareClient } from "./logflare.js";
+import { LogflareSource } from "./types.js";
+
+/**
+ * Extracts the top-level column names from a Logflare schema response.
+ * Accepts BigQuery table schemas (`{ fields: [...] }`), JSON schemas
+ * (`{ properties: {...} }`) and flat or dotted `{ path: type }` maps.
+ * Returns an empty set when the shape is not recognized.
+ */
+export function extractSchemaColumns(schema: unknown): Set<string> {
+  const columns = new Set<string>();
+
+  if (!schema || typeof schema !== "object") {
+    return columns;
+  }
+
+  if (Array.isArray(schema)) {
+    for (const field of schema) {
+      if (field && typeof field === "object" && typeof (field as { name?: unknown }).name === "string") {
+        columns.add((field as { name: string }).name);
+      }
+    }
+    return columns;
+  }
+
+  const record = schema as Record<string, unknown>;
+  if (Array.isArray(record.fields)) {
+    return extractSchemaColumns(record.fields);
+  }
+  if (record.properties && typeof record.properties === "object") {
+    return new Set(Object.keys(record.properties));
+  }
+  if (record.schema && typeof record.schema === "object") {
+    return extractSchemaColumns(record.schema);
+  }
+
+  for (const key of Object.keys(record)) {
+    columns.add(key.split(".")[0]);
+  }
+  return columns;
+}
+
+/**
+ * Fetches the columns that exist on a source.
+ */
+export async function getSourceColumns(
+  client: LogflareClient,
+  source: LogflareSource
+): Promise<Set<string>> {
+  return extractSchemaColumns(await client.getSourceSchema(source.token));
+}
+
+/**
+ * Keeps the wanted columns that exist in the schema, in the wanted order.
+ * When the schema could not be read, all wanted columns are returned.
+ */
+export function pickColumns(available: Set<string>, wanted: string[]): string[] {
+  return wanted.filter((name) => hasColumn(available, name));
+}
+
+/**
+ * Reports whether a column can be used, treating an unreadable schema as
+ * having every column.
+ */
+export function hasColumn(available: Set<string>, name: string): boolean {
+  return available.size === 0 || available.has(name);
+}
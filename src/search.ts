@@ -0,0 +1,87 @@
+/**
+ * Compiles structured log search filters into SQL.
+ */
+
+import { DEFAULT_LOG_COLUMNS } from "./config.js";
+import { QueryBuilder, SqlFragment, nestedFieldCondition, raw, sql } from "./queryBuilder.js";
+import { hasColumn, pickColumns } from "./schema.js";
+import { FieldFilter, LogSearchFilter, LogflareSource } from "./types.js";
+import { parseTimeToTimestamp } from "./utils.js";
+
+/**
+ * Builds the comparison for a single field filter.
+ */
+function fieldComparison(field: SqlFragment, filter: FieldFilter): SqlFragment {
+  switch (filter.op) {
+    case "eq":
+      return sql`${field} = ${filter.value}`;
+    case "neq":
+      return sql`${field} != ${filter.value}`;
+    case "contains":
+      return sql`STRPOS(LOWER(CAST(${field} AS STRING)), LOWER(${String(filter.value)})) > 0`;
+    case "gt":
+      return sql`${field} > ${filter.value}`;
+    case "gte":
+      return sql`${field} >= ${filter.value}`;
+    case "lt":
+      return sql`${field} < ${filter.value}`;
+    case "lte":
+      return sql`${field} <= ${filter.value}`;
+  }
+}
+
+/**
+ * Returns the path holding the log level: the top-level `level` column when
+ * the source has one, `metadata.level` otherwise.
+ */
+export function levelPath(columns: Set<string>): string {
+  return hasColumn(columns, "level") ? "level" : "metadata.level";
+}
+
+/**
+ * Builds a case-insensitive filter matching any of the given levels.
+ */
+export function levelCondition(levels: string[], columns: Set<string>): SqlFragment {
+  const wanted = levels.map((level) => sql`${level.toLowerCase()}`.text).join(", ");
+  return nestedFieldCondition(levelPath(columns), (field) =>
+    raw(`LOWER(CAST(${field.text} AS STRING)) IN (${wanted})`)
+  );
+}
+
+/**
+ * Matches rows in the [start, end) range.
+ */
+export function timeRangeCondition(start: Date, end: Date): SqlFragment {
+  return sql`timestamp >= ${start} AND timestamp < ${end}`;
+}
+
+/**
+ * Compiles a search filter against a source into an unpaginated query.
+ */
+export function compileLogSearch(
+  source: LogflareSource,
+  columns: Set<string>,
+  filter: LogSearchFilter
+): QueryBuilder {
+  const query = QueryBuilder.from(source.name)
+    .select(...pickColumns(columns, DEFAULT_LOG_COLUMNS))
+    .where(sql`timestamp >= ${raw(parseTimeToTimestamp(filter.since))}`);
+
+  if (filter.until) {
+    query.where(sql`timestamp < ${raw(parseTimeToTimestamp(filter.until))}`);
+  }
+
+  if (filter.text) {
+    query.where(sql`STRPOS(LOWER(event_message), LOWER(${filter.text})) > 0`);
+  }
+
+  if (filter.levels && filter.levels.length > 0) {
+    query.where(levelCondition(filter.levels, columns));
+  }
+
+  for (const fieldFilter of filter.fields || []) {
+    query.where(nestedFieldCondition(fieldFilter.path, (field) => fieldComparison(field, fieldFilter)));
+  }
+
+  return query;
+}
@@ -0,0 +1,135 @@
+/**
+ * Session record stores: in-memory for a single instance, Redis for
+ * several instances behind a load balancer.
+ */
+
+import { RedisClient, RedisReply } from "./redis.js";
+import { SessionRecord, SessionStore } from "./types.js";
+
+/**
+ * Keeps session records in this process, for single-instance deployments.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private records = new Map<string, { record: SessionRecord; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  async save(record: SessionRecord): Promise<void> {
+    this.records.set(record.id, { record, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    this.sweep();
+    return this.records.get(id)?.record;
+  }
+
+  async delete(record: SessionRecord): Promise<void> {
+    this.records.delete(record.id);
+  }
+
+  async countByOwner(owner: string): Promise<number> {
+    return (await this.list()).filter((record) => record.owner === owner).length;
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    this.sweep();
+    return Array.from(this.records.values(), (entry) => entry.record);
+  }
+
+  async close(): Promise<void> {}
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.records) {
+      if (entry.expiresAt <= now) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps session records in Redis with a TTL, plus a set of session ids per
+ * owner for counting. Ids of expired sessions are pruned from the set when
+ * it is counted.
+ */
+export class RedisSessionStore implements SessionStore {
+  constructor(
+    private readonly redis: RedisClient,
+    private readonly ttlMs: number,
+    private readonly prefix = "logflare-mcp:"
+  ) {}
+
+  async save(record: SessionRecord): Promise<void> {
+    const ownerKey = this.ownerKey(record.owner);
+    await Promise.all([
+      this.redis.command("SET", this.sessionKey(record.id), JSON.stringify(record), "PX", this.ttlMs),
+      this.redis.command("SADD", ownerKey, record.id),
+      this.redis.command("PEXPIRE", ownerKey, this.ttlMs),
+    ]);
+  }
+
+  async get(id: string): Promise<SessionRecord | undefined> {
+    return parseRecord(await this.redis.command("GET", this.sessionKey(id)));
+  }
+
+  async delete(record: SessionRecord): Promise<void> {
+    await Promise.all([
+      this.redis.command("DEL", this.sessionKey(record.id)),
+      this.redis.command("SREM", this.ownerKey(record.owner), record.id),
+    ]);
+  }
+
+  async countByOwner(owner: string): Promise<number> {
+    const ids = (await this.redis.command("SMEMBERS", this.ownerKey(owner))) as string[];
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const records = (await this.redis.command("MGET", ...ids.map((id) => this.sessionKey(id)))) as RedisReply[];
+    const expired = ids.filter((_id, index) => records[index] === null);
+    if (expired.length > 0) {
+      await this.redis.command("SREM", this.ownerKey(owner), ...expired);
+    }
+    return ids.length - expired.length;
+  }
+
+  async list(): Promise<SessionRecord[]> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = (await this.redis.command(
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${this.prefix}session:*`,
+        "COUNT",
+        100
+      )) as [string, string[]];
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== "0");
+
+    if (keys.length === 0) {
+      return [];
+    }
+    const replies = (await this.redis.command("MGET", ...keys)) as RedisReply[];
+    return replies.map(parseRecord).filter((record): record is SessionRecord => record !== undefined);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private sessionKey(id: string): string {
+    return `${this.prefix}session:${id}`;
+  }
+
+  private ownerKey(owner: string): string {
+    return `${this.prefix}owner:${owner}`;
+  }
+}
+
+function parseRecord(reply: RedisReply): SessionRecord | undefined {
+  return typeof reply === "string" ? (JSON.parse(reply) as SessionRecord) : undefined;
+}
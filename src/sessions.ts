@@ -0,0 +1,197 @@
+/**
+ * Tracks the MCP sessions held by this server instance and shares their
+ * records with other instances through a session store.
+ */
+
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Session, SessionRecord, SessionStore } from "./types.js";
+
+interface NewSession {
+  server: McpServer;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+  owner: string;
+  clientId?: string;
+  /** Set when continuing a session created by another instance. */
+  createdAt?: string;
+}
+
+/**
+ * Lets a new Streamable HTTP transport continue a session that was
+ * initialized on another instance, by adopting its id and skipping the
+ * initialize handshake. The SDK has no public API for this, so it sets
+ * the transport's internal state, and throws if an SDK release changed it.
+ */
+export function restoreTransportSession(transport: StreamableHTTPServerTransport, sessionId: string): void {
+  const inner = (transport as unknown as {
+    _webStandardTransport?: { sessionId?: string; _initialized?: unknown };
+  })._webStandardTransport;
+  if (typeof inner?._initialized !== "boolean") {
+    throw new Error("Cannot restore the session: the MCP SDK's Streamable HTTP transport internals have changed.");
+  }
+
+  inner.sessionId = sessionId;
+  inner._initialized = true;
+  if (transport.sessionId !== sessionId) {
+    throw new Error("Cannot restore the session: the MCP SDK's Streamable HTTP transport ignored the session id.");
+  }
+}
+
+/**
+ * Owns this instance's live sessions: their transports, inactivity
+ * timeouts and the shared records other instances see.
+ */
+export class SessionManager {
+  readonly instanceId = randomUUID();
+  private readonly sessions = new Map<string, Session>();
+  private isDraining = false;
+
+  constructor(
+    private readonly store: SessionStore,
+    private readonly timeoutMs: number,
+    private readonly maxSessionsPerOwner: number
+  ) {}
+
+  /**
+   * Whether the server is shutting down and refusing new requests.
+   */
+  get draining(): boolean {
+    return this.isDraining;
+  }
+
+  /**
+   * Whether another session may be opened with the given API key, counting
+   * sessions on every instance.
+   */
+  async hasCapacity(owner: string): Promise<boolean> {
+    return (await this.store.countByOwner(owner)) < this.maxSessionsPerOwner;
+  }
+
+  /**
+   * Registers a session held by this instance and publishes its record.
+   */
+  async add({ server, transport, owner, clientId, createdAt }: NewSession): Promise<Session> {
+    const id = transport.sessionId as string;
+    const now = new Date().toISOString();
+    const session: Session = {
+      server,
+      transport,
+      timeout: this.createTimeout(id),
+      record: {
+        id,
+        transport: transport instanceof SSEServerTransport ? "sse" : "streamable-http",
+        owner,
+        clientId,
+        instanceId: this.instanceId,
+        createdAt: createdAt ?? now,
+        lastSeenAt: now,
+      },
+    };
+
+    this.sessions.set(id, session);
+    await this.store.save(session.record);
+    return session;
+  }
+
+  /**
+   * Returns a session held by this instance, resetting its timeout.
+   */
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    clearTimeout(session.timeout);
+    session.timeout = this.createTimeout(id);
+    session.record.lastSeenAt = new Date().toISOString();
+    this.store.save(session.record).catch((error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to refresh session ${id}: ${errorMessage}`);
+    });
+
+    return session;
+  }
+
+  /**
+   * Looks up the shared record of a session held by any instance.
+   */
+  lookup(id: string): Promise<SessionRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Forgets a closed session. While draining, Streamable HTTP records are
+   * kept so another instance can pick the session up.
+   */
+  async remove(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    clearTimeout(session.timeout);
+    this.sessions.delete(id);
+    if (!(this.isDraining && session.record.transport === "streamable-http")) {
+      await this.store.delete(session.record);
+    }
+    console.log(`Session ${id} closed`);
+  }
+
+  /**
+   * Lists the sessions of every instance, marking the ones held here.
+   */
+  async list(): Promise<Array<SessionRecord & { local: boolean }>> {
+    const records = await this.store.list();
+    return records
+      .map((record) => ({ ...record, local: this.sessions.has(record.id) }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Closes every session held here and disconnects from the store. New
+   * requests should be refused once this starts.
+   */
+  async drain(): Promise<void> {
+    this.isDraining = true;
+    const sessions = Array.from(this.sessions.values());
+    console.log(`Draining ${sessions.length} sessions`);
+
+    await Promise.allSettled(
+      sessions.map(async (session) => {
+        await session.transport.close();
+        await this.remove(session.record.id);
+      })
+    );
+    await this.store.close();
+  }
+
+  /**
+   * Closes a session that has been inactive for the timeout and forgets it,
+   * as `remove` does, so it stops counting against its owner's limit.
+   */
+  private async expire(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+
+    console.log(`Session ${id} expired`);
+    try {
+      await session.transport.close();
+    } finally {
+      await this.remove(id);
+    }
+  }
+
+  private createTimeout(id: string): NodeJS.Timeout {
+    return setTimeout(() => {
+      this.expire(id).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to close expired session ${id}: ${errorMessage}`);
+      });
+    }, this.timeoutMs);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Resolution of user-supplied source references to known Logflare sources.
+ */
+
+import { LogflareClient } from "./logflare.js";
+import { SourceNotAllowedError, UnknownSourceError } from "./errors.js";
+import { LogflareApiConfig, LogflareSource } from "./types.js";
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Resolves a source id, name or token against the sources visible to the
+ * API key. Exact matches win over case-insensitive name matches; anything
+ * else raises `UnknownSourceError` with the closest names as suggestions.
+ */
+export async function resolveSource(
+  client: LogflareClient,
+  reference: string
+): Promise<LogflareSource> {
+  const sources = await client.listSources();
+  const trimmed = reference.trim();
+
+  const exact = sources.find(
+    (source) => source.name === trimmed || source.id === trimmed || source.token === trimmed
+  );
+  if (exact) {
+    return exact;
+  }
+
+  const caseInsensitive = sources.filter(
+    (source) => source.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (caseInsensitive.length === 1) {
+    return caseInsensitive[0];
+  }
+
+  throw new UnknownSourceError(trimmed, suggestSourceNames(trimmed, sources));
+}
+
+/**
+ * Parses a comma-separated list of source names, ids or tokens. An empty
+ * value or "*" means every source visible to the API key.
+ */
+export function parseSourceList(value: string | undefined): string[] | undefined {
+  const entries = (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  return entries.length === 0 || entries.includes("*") ? undefined : entries;
+}
+
+/**
+ * The sources one connection may use. Tool calls that name no source fall
+ * back to the primary source: the configured source token, or else the
+ * first allowed source.
+ */
+export class SourceScope {
+  private listeners: Array<() => void> = [];
+  private lastListed: string | null = null;
+
+  constructor(
+    private readonly client: LogflareClient,
+    private readonly config: LogflareApiConfig
+  ) {}
+
+  /**
+   * Registers a listener called when a listing differs from the previous one.
+   */
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Lists the sources visible to the API key that this connection may use.
+   */
+  async list({ bypassCache = false }: { bypassCache?: boolean } = {}): Promise<LogflareSource[]> {
+    const client = bypassCache ? this.client.withoutCache() : this.client;
+    const sources = (await client.listSources()).filter((source) => this.isAllowed(source));
+
+    const listed = sources.map((source) => source.token).sort().join(",");
+    if (this.lastListed !== null && this.lastListed !== listed) {
+      this.listeners.forEach((listener) => listener());
+    }
+    this.lastListed = listed;
+
+    return sources;
+  }
+
+  /**
+   * Resolves a source reference, or the primary source when none is given,
+   * rejecting sources outside the connection's allowed list.
+   */
+  async resolve(reference?: string): Promise<LogflareSource> {
+    const wanted = reference || this.config.sourceToken || this.config.allowedSources?.[0];
+    if (!wanted) {
+      throw new Error(
+        "No source given and no primary source is configured. Pass sourceName; use list_sources to see available sources."
+      );
+    }
+
+    const source = await resolveSource(this.client, wanted);
+    if (!this.isAllowed(source)) {
+      throw new SourceNotAllowedError(source.name, (await this.list()).map(({ name }) => name));
+    }
+    return source;
+  }
+
+  private isAllowed(source: LogflareSource): boolean {
+    const { allowedSources, sourceToken } = this.config;
+    if (!allowedSources) {
+      return true;
+    }
+    return [...allowedSources, ...(sourceToken ? [sourceToken] : [])].some(
+      (reference) => reference === source.name || reference === source.id || reference === source.token
+    );
+  }
+}
+
+/**
+ * Ranks source names by edit distance to the reference, keeping close matches.
+ */
+function suggestSourceNames(reference: string, sources: LogflareSource[]): string[] {
+  const needle = reference.toLowerCase();
+
+  return sources
+    .map((source) => {
+      const name = source.name.toLowerCase();
+      const distance = name.includes(needle) || needle.includes(name) ? 0 : levenshtein(needle, name);
+      return { name: source.name, distance };
+    })
+    .filter(({ name, distance }) => distance <= Math.max(2, Math.floor(name.length / 3)))
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ name }) => name);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,837 @@
+/**
+ * BigQuery SQL analysis and safety checks for model-written queries.
+ */
+
+import { QueryRejectedError } from "./errors.js";
+import {
+  CheckedQuery,
+  QueryPolicy,
+  QueryViolation,
+  SqlProjectionItem,
+  SqlTableReference,
+} from "./types.js";
+
+type TokenType = "word" | "quoted" | "string" | "number" | "param" | "punct" | "operator";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  depth: number;
+}
+
+interface SqlAnalysis {
+  tokens: Token[];
+  tables: SqlTableReference[];
+  projection: SqlProjectionItem[];
+  violations: QueryViolation[];
+}
+
+const FORBIDDEN_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "CREATE",
+  "DROP",
+  "ALTER",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "CALL",
+  "EXECUTE",
+  "DECLARE",
+  "BEGIN",
+  "COMMIT",
+  "ROLLBACK",
+  "EXPORT",
+  "LOAD",
+]);
+
+const CLAUSE_KEYWORDS = new Set([
+  "WHERE",
+  "GROUP",
+  "HAVING",
+  "QUALIFY",
+  "WINDOW",
+  "ORDER",
+  "LIMIT",
+  "OFFSET",
+  "UNION",
+  "INTERSECT",
+  "EXCEPT",
+  "JOIN",
+  "INNER",
+  "LEFT",
+  "RIGHT",
+  "FULL",
+  "CROSS",
+  "OUTER",
+  "ON",
+  "USING",
+  "TABLESAMPLE",
+  "FOR",
+  "PIVOT",
+  "UNPIVOT",
+]);
+
+const PROJECTION_END_KEYWORDS = [
+  "FROM",
+  "WHERE",
+  "GROUP",
+  "HAVING",
+  "QUALIFY",
+  "WINDOW",
+  "ORDER",
+  "LIMIT",
+  "UNION",
+  "INTERSECT",
+  "EXCEPT",
+];
+
+const SET_OPERATORS = new Set(["UNION", "INTERSECT", "EXCEPT"]);
+
+/** Comparisons that bound a column; `!=` and `<>` exclude a single value and bound nothing. */
+const BOUND_OPERATORS = new Set(["=", "<", ">", "<=", ">="]);
+
+/**
+ * Splits BigQuery SQL into tokens, skipping whitespace and comments and
+ * recording the parenthesis depth of every token.
+ */
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, end: number): void => {
+    const value = sql.slice(start, end);
+    if (value === ")") {
+      depth = Math.max(0, depth - 1);
+    }
+    tokens.push({ type, value, start, end, depth });
+    if (value === "(") {
+      depth++;
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (rest.startsWith("--") || char === "#") {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    if (rest.startsWith("/*")) {
+      const close = sql.indexOf("*/", i + 2);
+      if (close === -1) {
+        throw new SyntaxError("Unterminated block comment");
+      }
+      i = close + 2;
+      continue;
+    }
+
+    const stringPrefix = rest.match(/^(?:[rR][bB]?|[bB][rR]?)?(?='|")/);
+    if (stringPrefix) {
+      const raw = /r/i.test(stringPrefix[0]);
+      const quoteStart = i + stringPrefix[0].length;
+      const quote = sql.startsWith(sql[quoteStart].repeat(3), quoteStart)
+        ? sql[quoteStart].repeat(3)
+        : sql[quoteStart];
+      const end = findClosingQuote(sql, quoteStart + quote.length, quote, raw);
+      if (end === -1) {
+        throw new SyntaxError("Unterminated string literal");
+      }
+      push("string", i, end + quote.length);
+      i = end + quote.length;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = findClosingQuote(sql, i + 1, "`", false);
+      if (end === -1) {
+        throw new SyntaxError("Unterminated quoted identifier");
+      }
+      push("quoted", i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    const number = rest.match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/);
+    if (number) {
+      push("number", i, i + number[0].length);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      push("word", i, i + word[0].length);
+      i += word[0].length;
+      continue;
+    }
+
+    const param = rest.match(/^(?:@@?[A-Za-z_][A-Za-z0-9_.]*|\?)/);
+    if (param) {
+      push("param", i, i + param[0].length);
+      i += param[0].length;
+      continue;
+    }
+
+    const operator = rest.match(/^(?:>=|<=|<>|!=|\|\||<<|>>|=>|[=<>+\-*/%&|^~!])/);
+    if (operator) {
+      push("operator", i, i + operator[0].length);
+      i += operator[0].length;
+      continue;
+    }
+
+    if ("(),.;[]{}:".includes(char)) {
+      push("punct", i, i + 1);
+      i++;
+      continue;
+    }
+
+    throw new SyntaxError(`Unexpected character '${char}' at position ${i}`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the index of the closing quote, honouring backslash escapes.
+ */
+function findClosingQuote(sql: string, from: number, quote: string, raw: boolean): number {
+  for (let i = from; i < sql.length; i++) {
+    if (sql[i] === "\\" && !raw) {
+      i++;
+      continue;
+    }
+    if (sql.startsWith(quote, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Returns the identifier text of a word or backtick-quoted token.
+ */
+function identifierValue(token: Token): string {
+  return token.type === "quoted" ? token.value.slice(1, -1).replace(/\\`/g, "`") : token.value;
+}
+
+function isWord(token: Token | undefined, ...values: string[]): boolean {
+  return (
+    token !== undefined &&
+    token.type === "word" &&
+    (values.length === 0 || values.includes(token.value.toUpperCase()))
+  );
+}
+
+function isIdentifier(token: Token | undefined): boolean {
+  return token !== undefined && (token.type === "word" || token.type === "quoted");
+}
+
+/**
+ * Returns the index of the parenthesis closing the one at `openIndex`.
+ */
+function findClosingParen(tokens: Token[], openIndex: number): number {
+  const depth = tokens[openIndex].depth;
+  for (let i = openIndex + 1; i < tokens.length; i++) {
+    if (tokens[i].value === ")" && tokens[i].depth === depth) {
+      return i;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Returns the bounds of the query segment at the same depth as `index`,
+ * delimited by enclosing parentheses and set operators.
+ */
+function segmentBounds(tokens: Token[], index: number): [number, number] {
+  const depth = tokens[index].depth;
+  let start = index;
+  while (start > 0) {
+    const previous = tokens[start - 1];
+    if (previous.depth < depth || (previous.depth === depth && isWord(previous, ...SET_OPERATORS))) {
+      break;
+    }
+    start--;
+  }
+
+  let end = index;
+  while (end < tokens.length - 1) {
+    const next = tokens[end + 1];
+    if (next.depth < depth || (next.depth === depth && isWord(next, ...SET_OPERATORS))) {
+      break;
+    }
+    end++;
+  }
+
+  return [start, end];
+}
+
+/**
+ * Reads a dotted table path starting at `index`, returning its segments and
+ * the index of the first token after it. Unquoted dashes are allowed, as in
+ * BigQuery project names.
+ */
+function readTablePath(tokens: Token[], index: number): { segments: string[]; next: number } {
+  const segments: string[] = [identifierValue(tokens[index])];
+  let i = index + 1;
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.value === "." && isIdentifier(tokens[i + 1])) {
+      segments.push(identifierValue(tokens[i + 1]));
+      i += 2;
+    } else if (
+      token.value === "-" &&
+      token.start === tokens[i - 1].end &&
+      tokens[i + 1]?.start === token.end
+    ) {
+      segments[segments.length - 1] += `-${tokens[i + 1].value}`;
+      i += 2;
+    } else {
+      break;
+    }
+  }
+
+  return { segments, next: i };
+}
+
+/**
+ * Skips an optional `[AS] alias` after a FROM item, returning the alias and next index.
+ */
+function readAlias(tokens: Token[], index: number): { alias: string | null; next: number } {
+  if (isWord(tokens[index], "AS") && isIdentifier(tokens[index + 1])) {
+    return { alias: identifierValue(tokens[index + 1]), next: index + 2 };
+  }
+  if (isIdentifier(tokens[index]) && !isWord(tokens[index], ...CLAUSE_KEYWORDS)) {
+    return { alias: identifierValue(tokens[index]), next: index + 1 };
+  }
+  return { alias: null, next: index };
+}
+
+/**
+ * A name declared by the query, such as a CTE or a FROM alias, and the
+ * range of tokens (`start` inclusive, `end` exclusive) it is visible in.
+ */
+interface ScopedName {
+  name: string;
+  start: number;
+  end: number;
+}
+
+function inScope(names: ScopedName[], name: string, index: number): boolean {
+  return names.some((scoped) => scoped.name === name && scoped.start <= index && index < scoped.end);
+}
+
+/**
+ * Collects the CTE names declared by `WITH` clauses. Each is visible from
+ * the end of its definition (its start, if RECURSIVE) to the end of the
+ * query the WITH belongs to, including subqueries within it.
+ */
+function collectCteNames(tokens: Token[]): ScopedName[] {
+  const names: ScopedName[] = [];
+
+  tokens.forEach((token, index) => {
+    if (!isWord(token, "WITH") || tokens[index - 1]?.value === ".") {
+      return;
+    }
+
+    let end = index + 1;
+    while (end < tokens.length && tokens[end].depth >= token.depth) {
+      end++;
+    }
+
+    const recursive = isWord(tokens[index + 1], "RECURSIVE");
+    let i = recursive ? index + 2 : index + 1;
+    while (isIdentifier(tokens[i]) && isWord(tokens[i + 1], "AS") && tokens[i + 2]?.value === "(") {
+      const close = findClosingParen(tokens, i + 2);
+      names.push({ name: identifierValue(tokens[i]).toLowerCase(), start: recursive ? i : close, end });
+      i = close + 1;
+      if (tokens[i]?.value !== ",") {
+        break;
+      }
+      i++;
+    }
+  });
+
+  return names;
+}
+
+/**
+ * Finds every table referenced in a FROM or JOIN clause.
+ */
+function collectTables(tokens: Token[]): SqlTableReference[] {
+  const items: Array<{ segments: string[]; alias: string | null; tokenIndex: number; itemIndex: number }> = [];
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    if (!isWord(token, "FROM", "JOIN") || previous?.value === "." || isWord(previous, "DISTINCT")) {
+      return;
+    }
+
+    // FROM inside EXTRACT(... FROM ...) is not a clause: require a SELECT in the same group.
+    if (isWord(token, "FROM")) {
+      const [start] = segmentBounds(tokens, index);
+      const hasSelect = tokens
+        .slice(start, index)
+        .some((candidate) => candidate.depth === token.depth && isWord(candidate, "SELECT"));
+      if (!hasSelect) {
+        return;
+      }
+    }
+
+    let i = index + 1;
+    while (i < tokens.length) {
+      const item = tokens[i];
+      if (item.value === "(") {
+        i = findClosingParen(tokens, i) + 1;
+      } else if (isWord(item, "UNNEST") && tokens[i + 1]?.value === "(") {
+        i = findClosingParen(tokens, i + 1) + 1;
+      } else if (isIdentifier(item)) {
+        const { segments, next } = readTablePath(tokens, i);
+        const { alias } = readAlias(tokens, next);
+        items.push({ segments, alias, tokenIndex: index, itemIndex: i });
+        i = next;
+      } else {
+        break;
+      }
+
+      i = readAlias(tokens, i).next;
+      if (tokens[i]?.value !== "," || tokens[i].depth !== token.depth) {
+        break;
+      }
+      i++;
+    }
+  });
+
+  // A FROM item's name and alias are visible throughout its SELECT, subqueries included.
+  const cteNames = collectCteNames(tokens);
+  const itemNames = (excluded: number): ScopedName[] =>
+    items
+      .filter((item) => item.itemIndex !== excluded)
+      .flatMap((item) => {
+        const [start, end] = segmentBounds(tokens, item.tokenIndex);
+        return [item.segments.join("."), item.alias]
+          .filter((name): name is string => name !== null)
+          .map((name) => ({ name: name.toLowerCase(), start, end: end + 1 }));
+      });
+
+  // `FROM logs AS l, l.metadata` is an implicit UNNEST of a column path, and
+  // CTE names are not tables either.
+  return items
+    .filter(({ segments, itemIndex }) => {
+      const first = segments[0].toLowerCase();
+      if (segments.length === 1) {
+        return !inScope(cteNames, first, itemIndex);
+      }
+      return !inScope([...cteNames, ...itemNames(itemIndex)], first, itemIndex);
+    })
+    .map(({ segments, alias, tokenIndex }) => ({ name: segments.join("."), alias, tokenIndex }));
+}
+
+/**
+ * Parses the projection list of the outermost SELECT.
+ */
+function collectProjection(sql: string, tokens: Token[]): SqlProjectionItem[] {
+  const selectIndex = tokens.findIndex((token) => token.depth === 0 && isWord(token, "SELECT"));
+  if (selectIndex === -1) {
+    return [];
+  }
+
+  let i = selectIndex + 1;
+  while (isWord(tokens[i], "DISTINCT", "ALL") || (isWord(tokens[i], "AS") && isWord(tokens[i + 1], "STRUCT", "VALUE"))) {
+    i += isWord(tokens[i], "AS") ? 2 : 1;
+  }
+
+  const items: SqlProjectionItem[] = [];
+  let itemStart = i;
+  let bracketDepth = 0;
+
+  for (; i <= tokens.length; i++) {
+    const token = tokens[i];
+    const atEnd =
+      !token || (token.depth === 0 && bracketDepth === 0 && isWord(token, ...PROJECTION_END_KEYWORDS));
+
+    if (atEnd || (token.value === "," && token.depth === 0 && bracketDepth === 0)) {
+      if (i > itemStart) {
+        items.push(describeProjectionItem(sql, tokens.slice(itemStart, i)));
+      }
+      if (atEnd) {
+        break;
+      }
+      itemStart = i + 1;
+    } else if (token.value === "[") {
+      bracketDepth++;
+    } else if (token.value === "]") {
+      bracketDepth = Math.max(0, bracketDepth - 1);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Describes one projection item, working out the column name it produces.
+ */
+function describeProjectionItem(sql: string, itemTokens: Token[]): SqlProjectionItem {
+  const last = itemTokens[itemTokens.length - 1];
+  const beforeLast = itemTokens[itemTokens.length - 2];
+  const isWildcard = last.value === "*" && (itemTokens.length === 1 || beforeLast?.value === ".");
+
+  let outputName: string | null = null;
+  if (!isWildcard && isIdentifier(last) && !(isWord(last, "END") && !isWord(beforeLast, "AS"))) {
+    const isPath = itemTokens.every((token, index) =>
+      index % 2 === 0 ? isIdentifier(token) : token.value === "."
+    );
+    if (isPath || isWord(beforeLast, "AS") || isIdentifier(beforeLast) || beforeLast?.value === ")") {
+      outputName = identifierValue(last);
+    }
+  }
+
+  return {
+    text: sql.slice(itemTokens[0].start, last.end),
+    outputName,
+    isWildcard,
+  };
+}
+
+/**
+ * Splits the condition in tokens `start` to `end` (exclusive) into its
+ * ANDed conjuncts at parenthesis depth `depth`, leaving the AND of
+ * `BETWEEN ... AND ...` and those inside CASE expressions in place.
+ */
+function splitConjuncts(tokens: Token[], start: number, end: number, depth: number): Array<[number, number]> {
+  const conjuncts: Array<[number, number]> = [];
+  let conjunctStart = start;
+  let cases = 0;
+  let betweens = 0;
+
+  for (let i = start; i < end; i++) {
+    const token = tokens[i];
+    if (token.depth !== depth) {
+      continue;
+    }
+    if (isWord(token, "CASE")) {
+      cases++;
+    } else if (isWord(token, "END") && cases > 0) {
+      cases--;
+    } else if (cases === 0 && isWord(token, "BETWEEN")) {
+      betweens++;
+    } else if (cases === 0 && isWord(token, "AND")) {
+      if (betweens > 0) {
+        betweens--;
+      } else {
+        conjuncts.push([conjunctStart, i]);
+        conjunctStart = i + 1;
+      }
+    }
+  }
+
+  conjuncts.push([conjunctStart, end]);
+  return conjuncts;
+}
+
+/**
+ * Checks whether the condition in tokens `start` to `end` (exclusive), at
+ * parenthesis depth `depth`, holds a timestamp comparison every selected
+ * row must satisfy: one ANDed at the top level, directly or inside a
+ * parenthesized group of ANDed conditions. A top-level OR could let rows
+ * bypass the bound, so a condition containing one never qualifies, and
+ * neither do negated conditions or `!=`, which bound nothing.
+ * `matchesTable` tells whether a column qualifier (null when unqualified)
+ * refers to the table being checked.
+ */
+function boundsTimestamp(
+  tokens: Token[],
+  start: number,
+  end: number,
+  depth: number,
+  matchesTable: (qualifier: string | null) => boolean
+): boolean {
+  if (tokens.slice(start, end).some((token) => token.depth === depth && isWord(token, "OR"))) {
+    return false;
+  }
+
+  return splitConjuncts(tokens, start, end, depth).some(([conjunctStart, conjunctEnd]) => {
+    const first = tokens[conjunctStart];
+    if (conjunctStart >= conjunctEnd || isWord(first, "NOT")) {
+      return false;
+    }
+    if (first.value === "(" && findClosingParen(tokens, conjunctStart) === conjunctEnd - 1) {
+      return (
+        !isWord(tokens[conjunctStart + 1], "SELECT", "WITH") &&
+        boundsTimestamp(tokens, conjunctStart + 1, conjunctEnd - 1, depth + 1, matchesTable)
+      );
+    }
+    return comparesTimestamp(tokens, conjunctStart, conjunctEnd, depth, matchesTable);
+  });
+}
+
+/**
+ * Checks whether a single conjunct compares the table's `timestamp` column
+ * with a bounding operator at its top level.
+ */
+function comparesTimestamp(
+  tokens: Token[],
+  start: number,
+  end: number,
+  depth: number,
+  matchesTable: (qualifier: string | null) => boolean
+): boolean {
+  for (let i = start; i < end; i++) {
+    const token = tokens[i];
+
+    // Conditions inside a CASE expression only pick its value; they bound nothing.
+    if (token.depth === depth && isWord(token, "CASE")) {
+      let nested = 0;
+      for (i++; i < end; i++) {
+        if (tokens[i].depth !== depth) {
+          continue;
+        }
+        if (isWord(tokens[i], "CASE")) {
+          nested++;
+        } else if (isWord(tokens[i], "END") && nested-- === 0) {
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (!isIdentifier(token) || identifierValue(token).toLowerCase() !== "timestamp") {
+      continue;
+    }
+    // Skip TIMESTAMP(...) calls and TIMESTAMP '...' literals.
+    if (tokens[i + 1]?.value === "(" || tokens[i + 1]?.type === "string") {
+      continue;
+    }
+
+    let left = i;
+    while (tokens[left - 1]?.value === "." && isIdentifier(tokens[left - 2])) {
+      left -= 2;
+    }
+    const qualifier =
+      left === i
+        ? null
+        : tokens
+            .slice(left, i)
+            .filter(isIdentifier)
+            .map((part) => identifierValue(part).toLowerCase())
+            .join(".");
+    if (!matchesTable(qualifier)) {
+      continue;
+    }
+
+    // Step outward through wrapping calls such as DATE(timestamp) before looking for the comparison.
+    let right = i;
+    while (tokens[left - 1]?.value === "(" && tokens[right + 1]?.value === ")" && isIdentifier(tokens[left - 2])) {
+      left -= 2;
+      right += 1;
+    }
+
+    // The comparison itself must sit at the condition's top level, not inside a nested expression.
+    const before = tokens[left - 1];
+    const after = tokens[right + 1];
+    if (
+      (before?.depth === depth && BOUND_OPERATORS.has(before.value)) ||
+      (after?.depth === depth && (BOUND_OPERATORS.has(after.value) || isWord(after, "BETWEEN")))
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether the WHERE clause governing a table read bounds its
+ * `timestamp` column, so BigQuery can prune partitions. When the same
+ * FROM clause reads other tables too, the column must be qualified with
+ * the table's alias or name.
+ */
+function hasTimestampPredicate(tokens: Token[], table: SqlTableReference, joined: boolean): boolean {
+  const fromIndex = table.tokenIndex;
+  const depth = tokens[fromIndex].depth;
+  const [, segmentEnd] = segmentBounds(tokens, fromIndex);
+
+  const whereIndex = tokens.findIndex(
+    (token, index) => index > fromIndex && index <= segmentEnd && token.depth === depth && isWord(token, "WHERE")
+  );
+  if (whereIndex === -1) {
+    return false;
+  }
+
+  const endsWhere = (token: Token) =>
+    token.depth === depth && isWord(token, "GROUP", "HAVING", "QUALIFY", "WINDOW", "ORDER", "LIMIT");
+  let whereEnd = whereIndex + 1;
+  while (whereEnd <= segmentEnd && !endsWhere(tokens[whereEnd])) {
+    whereEnd++;
+  }
+
+  const names = [table.alias, table.name, table.name.split(".").pop()].map((name) => name?.toLowerCase());
+  const matchesTable = (qualifier: string | null) => (qualifier === null ? !joined : names.includes(qualifier));
+  return boundsTimestamp(tokens, whereIndex + 1, whereEnd, depth, matchesTable);
+}
+
+/**
+ * Tokenizes and structurally analyzes a SQL statement.
+ */
+function analyzeSql(sql: string): SqlAnalysis {
+  const violations: QueryViolation[] = [];
+  let tokens: Token[];
+
+  try {
+    tokens = tokenize(sql);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      tokens: [],
+      tables: [],
+      projection: [],
+      violations: [
+        {
+          code: "parse_error",
+          message: `Could not parse SQL: ${errorMessage}`,
+          hint: "Check quotes, backticks and comments are balanced.",
+        },
+      ],
+    };
+  }
+
+  while (tokens.length > 0 && tokens[tokens.length - 1].value === ";") {
+    tokens.pop();
+  }
+
+  if (tokens.length === 0) {
+    violations.push({ code: "parse_error", message: "SQL is empty." });
+    return { tokens, tables: [], projection: [], violations };
+  }
+
+  if (tokens.some((token) => token.value === ";")) {
+    violations.push({
+      code: "multiple_statements",
+      message: "Only a single statement can be executed per query.",
+      hint: "Remove the ';' separated statements and run them one at a time.",
+    });
+  }
+
+  const first = tokens.find((token) => token.value !== "(");
+  if (!isWord(first, "SELECT", "WITH")) {
+    violations.push({
+      code: "not_select",
+      message: `Only SELECT queries are allowed, but the statement starts with '${first?.value ?? ""}'.`,
+      hint: "Rewrite the query as a SELECT (optionally preceded by WITH).",
+    });
+  }
+
+  const forbidden = tokens.filter(
+    (token, index) => isWord(token, ...FORBIDDEN_KEYWORDS) && tokens[index - 1]?.value !== "."
+  );
+  for (const keyword of new Set(forbidden.map((token) => token.value.toUpperCase()))) {
+    violations.push({
+      code: "forbidden_keyword",
+      message: `The keyword ${keyword} is not allowed in read-only queries.`,
+      hint: "If this is a column name, wrap it in backticks.",
+    });
+  }
+
+  return {
+    tokens,
+    tables: collectTables(tokens),
+    projection: collectProjection(sql, tokens),
+    violations,
+  };
+}
+
+/**
+ * Validates a query against the policy and returns it with the row limit
+ * enforced. Throws `QueryRejectedError` listing every violation found.
+ */
+export function enforceQueryPolicy(sql: string, policy: QueryPolicy): CheckedQuery {
+  const analysis = analyzeSql(sql);
+  const { tokens, tables, projection } = analysis;
+  const violations = [...analysis.violations];
+  const adjustments: string[] = [];
+
+  if (violations.some((violation) => violation.code === "parse_error")) {
+    throw new QueryRejectedError(violations);
+  }
+
+  const allowed = new Set(policy.allowedTables);
+  for (const name of new Set(tables.map((table) => table.name))) {
+    if (!allowed.has(name)) {
+      violations.push({
+        code: "unknown_table",
+        message: `Table \`${name}\` is not a source available to this connection.`,
+        hint: "Use list_sources to find available source names and reference them as FROM `source-name`.",
+      });
+    }
+  }
+
+  if (policy.requireTimestampFilter) {
+    const fromClause = (table: SqlTableReference) => segmentBounds(tokens, table.tokenIndex)[0];
+    for (const table of tables) {
+      const joined = tables.some((other) => other !== table && fromClause(other) === fromClause(table));
+      if (allowed.has(table.name) && !hasTimestampPredicate(tokens, table, joined)) {
+        violations.push({
+          code: "missing_timestamp_filter",
+          message:
+            `Reads from \`${table.name}\` must be bounded by a timestamp predicate ANDed at the top level of the WHERE clause.` +
+            (joined ? " In a join, each table needs its own, qualified with its alias." : ""),
+          hint: "Add e.g. WHERE timestamp >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 1 DAY) to limit the scanned partitions.",
+        });
+      }
+    }
+  }
+
+  let rewritten = sql.slice(0, tokens[tokens.length - 1].end);
+  const limitIndex = tokens.findIndex((token) => token.depth === 0 && isWord(token, "LIMIT"));
+
+  if (limitIndex === -1) {
+    if (policy.addLimit !== false) {
+      rewritten = `${rewritten}\nLIMIT ${policy.maxLimit}`;
+      adjustments.push(`No LIMIT given; LIMIT ${policy.maxLimit} was added.`);
+    }
+  } else {
+    const limitToken = tokens[limitIndex + 1];
+    if (!limitToken || limitToken.type !== "number" || !/^\d+$/.test(limitToken.value)) {
+      violations.push({
+        code: "limit_not_literal",
+        message: "LIMIT must be an integer literal.",
+        hint: `Use a number no greater than ${policy.maxLimit}.`,
+      });
+    } else if (parseInt(limitToken.value) > policy.maxLimit) {
+      rewritten = `${rewritten.slice(0, limitToken.start)}${policy.maxLimit}${rewritten.slice(limitToken.end)}`;
+      adjustments.push(`LIMIT ${limitToken.value} exceeds the maximum; reduced to ${policy.maxLimit}.`);
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new QueryRejectedError(violations);
+  }
+
+  const orderIndex = tokens.findIndex(
+    (token, index) => token.depth === 0 && isWord(token, "ORDER") && isWord(tokens[index + 1], "BY")
+  );
+
+  return {
+    sql: rewritten,
+    tables: [...new Set(tables.map((table) => table.name))],
+    projection,
+    adjustments,
+    limited: limitIndex !== -1,
+    ordered: orderIndex !== -1,
+  };
+}
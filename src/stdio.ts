@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/**
+ * Stdio entrypoint for local MCP clients (Claude Desktop, Cursor, etc.).
+ * Reads credentials from CLI flags, environment variables or a `.env` file.
+ */
+
+// Loaded first: config.js reads the environment as soon as it is imported.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { EXPORTS_DIR, EXPORT_TTL_MS, SAVED_QUERIES_PATH } from "./config.js";
+import { ExportStore } from "./exports.js";
+import { createMcpServer } from "./mcp.js";
+import { JsonFileSavedQueryStore } from "./savedQueries.js";
+import { parseSourceList } from "./sources.js";
+import { LogflareApiConfig } from "./types.js";
+
+/**
+ * Resolves the Logflare credentials, preferring CLI flags over environment variables.
+ */
+function getStdioConfig(): LogflareApiConfig | null {
+  const { values } = parseArgs({
+    options: {
+      "api-key": { type: "string" },
+      "source-token": { type: "string" },
+      sources: { type: "string" },
+    },
+  });
+
+  const apiKey = values["api-key"] || process.env.LOGFLARE_API_KEY;
+  const sourceToken = values["source-token"] || process.env.LOGFLARE_SOURCE_TOKEN;
+
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    apiKey,
+    sourceToken: sourceToken || undefined,
+    allowedSources: parseSourceList(values.sources || process.env.LOGFLARE_SOURCES),
+  };
+}
+
+async function main(): Promise<void> {
+  const config = getStdioConfig();
+
+  if (!config) {
+    console.error(
+      "Missing Logflare credentials: pass --api-key or set LOGFLARE_API_KEY"
+    );
+    process.exit(1);
+  }
+
+  const server = createMcpServer(
+    config,
+    new JsonFileSavedQueryStore(SAVED_QUERIES_PATH),
+    new ExportStore(EXPORTS_DIR, EXPORT_TTL_MS)
+  );
+  await server.connect(new StdioServerTransport());
+
+  // stdout carries the protocol, so diagnostics go to stderr.
+  console.error("Logflare MCP server running on stdio");
+}
+
+main().catch((error: unknown) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`Failed to start: ${errorMessage}`);
+  process.exit(1);
+});
@@ -4,15 +4,170 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { executeQuery, getSourceSchema, listSources } from "./logflare.js";
-import { analyzeFieldStructure, parseTimeRangeToHours, parseTimeToTimestamp } from "./utils.js";
-import { LogflareApiConfig } from "./types.js";
+import { LogflareClient } from "./logflare.js";
+import { LogflareApiError, QueryRejectedError } from "./errors.js";
+import { enforceQueryPolicy } from "./sqlGuard.js";
+import { SourceScope } from "./sources.js";
+import { getSourceColumns, hasColumn, pickColumns } from "./schema.js";
+import { QueryBuilder, aliased, raw, sql } from "./queryBuilder.js";
+import { compileLogSearch } from "./search.js";
+import { buildHistogram, compileHistogram, resolveHistogramWindow } from "./histogram.js";
+import { clusterMessages } from "./patterns.js";
+import {
+  compareDistributions,
+  comparePatterns,
+  compareVolume,
+  compileLevelCounts,
+  compileValueCounts,
+  compileWindowMessages,
+  periodTotals,
+} from "./compare.js";
+import { mergeTimeline, traceSource } from "./trace.js";
+import { applyFieldStats, compileFieldStats, discoverFields } from "./profile.js";
+import { buildTopValues, compileTopValues } from "./facets.js";
+import { compileAnchorQuery, compileContextQuery, correlationConditions, readFieldValue } from "./context.js";
+import { attachTopMessages, compileAnomalyCounts, compileTopMessages, findAnomalies } from "./anomalies.js";
+import { applyPage, readPage } from "./cursor.js";
+import { formatOutput } from "./format.js";
+import { ExportStore, exportUri } from "./exports.js";
+import { defineSavedQuery, renderSampleQuery, renderSavedQuery } from "./savedQueries.js";
+import {
+  DEFAULT_LOG_COLUMNS,
+  DEFAULT_OUTPUT_MAX_CHARS,
+  MAX_BASELINE_DAYS,
+  MAX_COMPARED_FIELDS,
+  MAX_COMPARED_VALUES,
+  MAX_CONTEXT_EVENTS,
+  MAX_EXPORT_ROWS,
+  MAX_PROFILED_FIELDS,
+  MAX_LOG_PATTERNS,
+  MAX_OUTPUT_MAX_CHARS,
+  MAX_QUERY_LIMIT,
+  MAX_SAVED_QUERIES,
+  MAX_SEARCH_RESULTS,
+  MAX_TOP_VALUES,
+} from "./config.js";
+import { analyzeFieldStructure, parseTimeRangeToHours, parseTimeToDate, parseTimeToTimestamp } from "./utils.js";
+import { CheckedQuery, ComparedWindow, PageRequest, QueryPolicy, SavedQuery, SavedQueryStore } from "./types.js";
 
 /**
- * Registers all MCP tools with the server instance.
+ * Builds an MCP error result, appending an actionable hint for typed Logflare errors.
  */
-export function registerTools(server: McpServer, config: LogflareApiConfig): void {
-  const { apiKey, sourceToken } = config;
+function toolError(error: unknown) {
+  if (error instanceof QueryRejectedError) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error: "Query rejected", violations: error.violations }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const hint = error instanceof LogflareApiError ? error.hint : null;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: hint ? `Error: ${errorMessage}\n\n${hint}` : `Error: ${errorMessage}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Registers all MCP tools with the server instance. Saved queries and
+ * exports are scoped to `owner`, a hash of the connection's API key plus
+ * its authenticated client, if any.
+ */
+export function registerTools(
+  server: McpServer,
+  client: LogflareClient,
+  scope: SourceScope,
+  savedQueries: SavedQueryStore,
+  queryExports: ExportStore,
+  owner: string
+): void {
+  /**
+   * Validates model-written SQL against the sources this connection may use.
+   */
+  const checkQuery = async (
+    sql: string,
+    { maxLimit = MAX_QUERY_LIMIT, addLimit = true }: Partial<Pick<QueryPolicy, "maxLimit" | "addLimit">> = {}
+  ): Promise<CheckedQuery> => {
+    const sources = await scope.list();
+    return enforceQueryPolicy(sql, {
+      allowedTables: sources.map((source) => source.name),
+      maxLimit,
+      requireTimestampFilter: true,
+      addLimit,
+    });
+  };
+
+  /**
+   * Validates SQL that is read in pages with keyset cursors. No LIMIT is
+   * added, as every page carries its own, and a LIMIT without ORDER BY is
+   * refused: it would select a different arbitrary set of rows per page.
+   */
+  const checkPagedQuery = async (sql: string, maxLimit = MAX_QUERY_LIMIT): Promise<CheckedQuery> => {
+    const checked = await checkQuery(sql, { maxLimit, addLimit: false });
+    if (checked.limited && !checked.ordered) {
+      throw new QueryRejectedError([
+        {
+          code: "unordered_limit",
+          message: "A LIMIT without ORDER BY selects arbitrary rows, which cannot be paged consistently.",
+          hint: "Remove the LIMIT, as results are already paged, or add ORDER BY timestamp.",
+        },
+      ]);
+    }
+    return checked;
+  };
+
+  /**
+   * Whether a checked query returns an `id` column to break ties on
+   * timestamp when paging. A wildcard selects it when every source read
+   * has one.
+   */
+  const selectsId = async (checked: CheckedQuery): Promise<boolean> => {
+    if (checked.projection.some((item) => item.outputName?.toLowerCase() === "id")) {
+      return true;
+    }
+    if (!checked.projection.some((item) => item.isWildcard) || checked.tables.length === 0) {
+      return false;
+    }
+    const sources = await Promise.all(checked.tables.map((name) => scope.resolve(name)));
+    const columns = await Promise.all(sources.map((source) => getSourceColumns(client, source)));
+    return columns.every((available) => hasColumn(available, "id"));
+  };
+
+  const bypassCacheParam = z
+    .boolean()
+    .optional()
+    .describe("Fetch fresh results from Logflare instead of recently cached ones (default: false).");
+
+  const outputParams = {
+    format: z
+      .enum(["json", "jsonl", "markdown", "csv"])
+      .optional()
+      .describe(
+        "Output format: 'json' (default), 'jsonl' (one compact JSON row per line), 'markdown' (a table) or 'csv'. Tabular formats render the result's rows, preceded by its other fields."
+      ),
+    maxChars: z
+      .number()
+      .optional()
+      .describe(
+        `Output budget in characters (default: ${DEFAULT_OUTPUT_MAX_CHARS}, max: ${MAX_OUTPUT_MAX_CHARS}). Over it, long strings and deep nesting are shortened and then trailing rows dropped, with "truncated" markers.`
+      ),
+    outputFields: z
+      .array(z.string())
+      .optional()
+      .describe("Only include these fields of each result row, as dotted paths, e.g. ['timestamp', 'metadata.user_id']."),
+  };
 
   server.tool(
     "query_logs",
@@ -20,116 +175,93 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
       sql: z
         .string()
         .describe(
-          "Execute raw BigQuery SQL queries against Logflare logs. The source is automatically scoped from connection configuration via source token parameter. IMPORTANT: SQL queries must reference source names as table names (e.g., FROM `source-name`). Use list_sources tool first to get available source names, then use the source name in your SQL. Returns raw results with microsecond timestamps. For human-readable timestamps, use query_logs_formatted instead. For discovering available columns, use get_source_schema first. Example: SELECT timestamp, event_message, level FROM `my-source` WHERE timestamp > 1234567890000000 LIMIT 10"
+          `Execute raw BigQuery SQL queries against Logflare logs. The source is automatically scoped from connection configuration via source token parameter. IMPORTANT: SQL queries must reference source names as table names (e.g., FROM \`source-name\`). Use list_sources tool first to get available source names, then use the source name in your SQL. Only a single SELECT statement is allowed, every source read must have a timestamp predicate in its WHERE clause, and results are capped at ${MAX_QUERY_LIMIT} rows (a LIMIT is added when missing). Returns raw results with microsecond timestamps. For human-readable timestamps, use query_logs_formatted instead. For discovering available columns, use get_source_schema first. Example: SELECT timestamp, event_message, level FROM \`my-source\` WHERE timestamp > 1234567890000000 LIMIT 10`
         ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ sql }) => {
+    async ({ sql, bypassCache, ...output }) => {
       try {
-        const params = new URLSearchParams({ bq_sql: sql });
-        params.append("source", sourceToken);
-
-        const response = await fetch(
-          `https://api.logflare.app/api/query?${params.toString()}`,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              Accept: "application/json",
-            },
-          }
-        );
-
-        if (!response.ok) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Logflare Error: ${await response.text()}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const data = await response.json();
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const checked = await checkQuery(sql);
+        const result = await logflare.executeQuery(checked.sql);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(data.result || data, null, 2),
+              text: formatOutput(result, output),
             },
+            ...checked.adjustments.map((adjustment) => ({
+              type: "text" as const,
+              text: `Note: ${adjustment}`,
+            })),
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
 
   server.tool(
     "list_sources",
-    {},
-    async () => {
+    {
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ bypassCache, ...output }) => {
       try {
-        const data = await listSources(config);
-        const sources = Array.isArray(data) ? data : (data as { sources?: unknown[] }).sources || [];
-        const formattedSources = (sources as Array<{ id?: string; name?: string; description?: string }>).map(
-          (source) => ({
-            id: source.id || "",
-            name: source.name || "",
-            description: source.description || "",
-          })
-        );
+        const sources = await scope.list({ bypassCache });
+        const formattedSources = sources.map(({ id, name, description }) => ({ id, name, description }));
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify({ sources: formattedSources }, null, 2),
+              text: formatOutput({ sources: formattedSources }, output, "sources"),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
 
   server.tool(
     "get_source_schema",
-    {},
-    async () => {
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ sourceName, bypassCache, ...output }) => {
       try {
-        const schema = await getSourceSchema(config);
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const schema = await logflare.getSourceSchema(source.token);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  source: sourceToken,
+                  source: source.name,
                   schema: schema,
                 },
-                null,
-                2
+                output
               ),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
@@ -140,7 +272,7 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
       sourceName: z
         .string()
         .describe(
-          "Source name to get sample logs from. Get source names using list_sources tool first - use the 'name' field from the response. Example: if list_sources returns {id: '36025', name: 'whisprcoach.all'}, use 'whisprcoach.all' as the sourceName parameter."
+          "Source name to get sample logs from. Get source names using list_sources tool first - use the 'name' field from the response (the source id or token are also accepted). Example: if list_sources returns {id: '36025', name: 'whisprcoach.all'}, use 'whisprcoach.all' as the sourceName parameter."
         ),
       limit: z
         .number()
@@ -149,64 +281,52 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
         .describe(
           "Number of sample log entries to retrieve (default: 5, max: 100). Returns the most recent logs with all fields visible. Use this to see actual log structure, nested fields, and data formats."
         ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Pagination cursor. Pass nextCursor (older logs) or previousCursor (newer logs) from a previous response to continue."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ sourceName, limit = 5 }) => {
+    async ({ sourceName, limit = 5, cursor, bypassCache, ...output }) => {
       try {
-        const query = `SELECT timestamp, event_message, level, id, metadata FROM \`${sourceName}\` WHERE timestamp >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 7 DAY) ORDER BY timestamp DESC LIMIT ${Math.min(limit, 100)}`;
-
-        const params = new URLSearchParams({
-          bq_sql: query,
-          source: sourceToken,
-        });
-
-        const response = await fetch(
-          `https://api.logflare.app/api/query?${params.toString()}`,
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              Accept: "application/json",
-            },
-          }
-        );
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Logflare API Error: ${errorText}`,
-              },
-            ],
-            isError: true,
-          };
-        }
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+        const page: PageRequest = {
+          cursor,
+          order: "DESC",
+          pageSize: Math.max(1, Math.min(limit, 100)),
+          hasId: hasColumn(columns, "id"),
+        };
+        const query = QueryBuilder.from(source.name)
+          .select(...pickColumns(columns, DEFAULT_LOG_COLUMNS))
+          .where(sql`timestamp >= ${raw(parseTimeToTimestamp("7 days ago"))}`);
 
-        const data = await response.json();
-        const result = data.result || (Array.isArray(data) ? data : []);
+        const result = readPage(await logflare.executeQuery(applyPage(query, page).build(), source.token), page);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  source: sourceName,
-                  count: result.length,
-                  samples: result,
+                  source: source.name,
+                  count: result.rows.length,
+                  nextCursor: result.nextCursor,
+                  previousCursor: result.previousCursor,
+                  samples: result.rows,
                 },
-                null,
-                2
+                output,
+                "samples"
               ),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
@@ -217,58 +337,91 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
       sql: z
         .string()
         .describe(
-          "Execute BigQuery SQL query with automatically formatted human-readable timestamps. IMPORTANT: Your SQL MUST specify columns explicitly (cannot use SELECT *). Must include 'timestamp' column in SELECT. Source names are table names (e.g., FROM `source-name`). Use list_sources tool first. Example: SELECT timestamp, event_message, level FROM `my-source` WHERE level = 'error' LIMIT 10. Returns your columns plus 'formatted_timestamp' (YYYY-MM-DD HH:MM:SS)."
+          "Execute BigQuery SQL query with automatically formatted human-readable timestamps. IMPORTANT: Your SQL MUST specify columns explicitly (cannot use SELECT *). Must include 'timestamp' column in SELECT. Source names are table names (e.g., FROM `source-name`). Use list_sources tool first. The same rules as query_logs apply: single SELECT only and a timestamp predicate in WHERE. No LIMIT is needed, as results are paged with pageSize and cursors; a LIMIT must come with an ORDER BY. Example: SELECT timestamp, event_message, level FROM `my-source` WHERE level = 'error' AND timestamp > TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 1 DAY). Returns your columns plus 'formatted_timestamp' (YYYY-MM-DD HH:MM:SS), paged by timestamp (ties broken by id when selected)."
+        ),
+      order: z
+        .enum(["asc", "desc"])
+        .optional()
+        .default("desc")
+        .describe("Order of the pages by timestamp: 'desc' for newest first (default), 'asc' for oldest first."),
+      pageSize: z
+        .number()
+        .optional()
+        .default(100)
+        .describe(`Number of rows per page (default: 100, max: ${MAX_QUERY_LIMIT}).`),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Pagination cursor. Pass nextCursor or previousCursor from a previous response, with the same sql and order, to continue."
         ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ sql }) => {
+    async ({ sql, order = "desc", pageSize = 100, cursor, bypassCache, ...output }) => {
       try {
-        const selectMatch = sql.match(/SELECT\s+(.+?)\s+FROM/i);
-        if (!selectMatch) {
-          throw new Error(
-            "Invalid SQL: Could not parse SELECT clause. Must use explicit columns, not SELECT *"
-          );
-        }
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const checked = await checkPagedQuery(sql);
 
-        const userColumns = selectMatch[1].trim();
+        if (checked.projection.some((item) => item.isWildcard)) {
+          throw new QueryRejectedError([
+            {
+              code: "wildcard_projection",
+              message: "SELECT * is not allowed.",
+              hint: "Specify columns explicitly (e.g., SELECT timestamp, event_message, level FROM ...)",
+            },
+          ]);
+        }
 
-        if (userColumns === "*" || userColumns.includes("*")) {
-          throw new Error(
-            "SELECT * is not allowed. Please specify columns explicitly (e.g., SELECT timestamp, event_message, level FROM ...)"
-          );
+        if (!checked.projection.some((item) => item.outputName?.toLowerCase() === "timestamp")) {
+          throw new QueryRejectedError([
+            {
+              code: "missing_timestamp_column",
+              message: "The SELECT list must include the timestamp column.",
+              hint: "Add timestamp to the selected columns so it can be formatted.",
+            },
+          ]);
         }
 
-        const formattedSql = `
-          SELECT 
-            ${userColumns},
-            FORMAT_TIMESTAMP('%Y-%m-%d %H:%M:%S', timestamp) as formatted_timestamp
-          FROM (
-            ${sql}
-          )
-        `;
+        const page: PageRequest = {
+          cursor,
+          order: order === "asc" ? "ASC" : "DESC",
+          pageSize: Math.max(1, Math.min(pageSize, MAX_QUERY_LIMIT)),
+          hasId: await selectsId(checked),
+        };
+        const formattedSql = applyPage(
+          QueryBuilder.fromSubquery(checked.sql).select(
+            raw("*"),
+            aliased(raw("FORMAT_TIMESTAMP('%Y-%m-%d %H:%M:%S', timestamp)"), "formatted_timestamp")
+          ),
+          page
+        ).build();
 
-        const result = (await executeQuery(formattedSql, config)) as unknown[];
+        const result = readPage(await logflare.executeQuery(formattedSql), page);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  result: result,
-                  count: result.length,
+                  result: result.rows,
+                  count: result.rows.length,
+                  nextCursor: result.nextCursor,
+                  previousCursor: result.previousCursor,
                 },
-                null,
-                2
+                output,
+                "result"
               ),
             },
+            ...checked.adjustments.map((adjustment) => ({
+              type: "text" as const,
+              text: `Note: ${adjustment}`,
+            })),
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
@@ -280,58 +433,51 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
         .string()
         .optional()
         .describe(
-          "Source name. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
         ),
       limit: z
         .number()
         .optional()
         .default(10)
         .describe(
-          "Number of recent logs to analyze for field structure (default: 10, max: 50). Discovers nested fields like 'metadata.userId', 'metadata.email', etc. Shows field types, sample values, and nested paths."
+          "Number of recent logs to analyze for field structure (default: 10, max: 50). Discovers nested fields like 'metadata.userId', 'metadata.email', etc. Shows field types, sample values, and nested paths. For null rates, distinct counts and top values across a time window, use profile_fields."
         ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ sourceName, limit = 10 }) => {
+    async ({ sourceName, limit = 10, bypassCache, ...output }) => {
       try {
-        const tableName = sourceName || sourceToken;
-
-        const sampleSql = `
-          SELECT 
-            timestamp,
-            event_message,
-            metadata,
-            level,
-            id
-          FROM \`${tableName}\`
-          WHERE timestamp >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 7 DAY)
-          ORDER BY timestamp DESC
-          LIMIT ${Math.min(limit, 50)}
-        `;
-
-        const samples = (await executeQuery(sampleSql, config)) as Record<string, unknown>[];
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+
+        const columns = await getSourceColumns(logflare, source);
+        const sampleSql = QueryBuilder.from(source.name)
+          .select(...pickColumns(columns, DEFAULT_LOG_COLUMNS))
+          .where(sql`timestamp >= ${raw(parseTimeToTimestamp("7 days ago"))}`)
+          .orderBy("timestamp", "DESC")
+          .limit(Math.min(limit, 50))
+          .build();
+
+        const samples = await logflare.executeQuery(sampleSql, source.token);
         const fieldAnalysis = analyzeFieldStructure(samples);
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  source: tableName,
+                  source: source.name,
                   fieldsAnalyzed: Object.keys(fieldAnalysis).length,
                   fieldStructure: fieldAnalysis,
                 },
-                null,
-                2
+                output
               ),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
@@ -350,38 +496,46 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
         .string()
         .optional()
         .describe(
-          "Source name. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
         ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ timeRange = "24h", sourceName }) => {
+    async ({ timeRange = "24h", sourceName, bypassCache, ...output }) => {
       try {
-        const tableName = sourceName || sourceToken;
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
         const hours = parseTimeRangeToHours(timeRange);
+        const columns = await getSourceColumns(logflare, source);
+        const hasLevel = hasColumn(columns, "level");
+        const hasMessage = hasColumn(columns, "event_message");
+        const level = raw("LOWER(CAST(level AS STRING))");
+        const message = raw("LOWER(CAST(event_message AS STRING))");
 
-        const sql = `
-          SELECT 
-            COUNT(*) as total_logs,
-            COUNT(DISTINCT CAST(level AS STRING)) as distinct_levels,
-            MIN(timestamp) as earliest_log,
-            MAX(timestamp) as latest_log,
-            COUNTIF(LOWER(CAST(event_message AS STRING)) LIKE '%error%') as error_count,
-            COUNTIF(LOWER(CAST(event_message AS STRING)) LIKE '%warn%') as warning_count,
-            COUNTIF(LOWER(CAST(level AS STRING)) = 'error') as error_level_count,
-            COUNTIF(LOWER(CAST(level AS STRING)) = 'warn') as warn_level_count
-          FROM \`${tableName}\`
-          WHERE timestamp >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL ${hours} HOUR)
-        `;
-
-        const result = (await executeQuery(sql, config)) as Array<Record<string, unknown>>;
+        const statsSql = QueryBuilder.from(source.name)
+          .select(
+            aliased(raw("COUNT(*)"), "total_logs"),
+            aliased(hasLevel ? raw("COUNT(DISTINCT CAST(level AS STRING))") : raw("0"), "distinct_levels"),
+            aliased(raw("MIN(timestamp)"), "earliest_log"),
+            aliased(raw("MAX(timestamp)"), "latest_log"),
+            aliased(hasMessage ? sql`COUNTIF(${message} LIKE ${"%error%"})` : raw("0"), "error_count"),
+            aliased(hasMessage ? sql`COUNTIF(${message} LIKE ${"%warn%"})` : raw("0"), "warning_count"),
+            aliased(hasLevel ? sql`COUNTIF(${level} = ${"error"})` : raw("0"), "error_level_count"),
+            aliased(hasLevel ? sql`COUNTIF(${level} = ${"warn"})` : raw("0"), "warn_level_count")
+          )
+          .where(sql`timestamp >= TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL ${hours} HOUR)`)
+          .build();
+
+        const result = await logflare.executeQuery(statsSql, source.token);
         const stats = result[0] || {};
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  source: tableName,
+                  source: source.name,
                   timeRange: timeRange,
                   statistics: {
                     totalLogs: stats.total_logs || 0,
@@ -394,18 +548,13 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
                     latestLog: stats.latest_log || null,
                   },
                 },
-                null,
-                2
+                output
               ),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
-        };
+        return toolError(error);
       }
     }
   );
@@ -416,20 +565,20 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
       startTime: z
         .string()
         .describe(
-          "Timestamp to get logs from. Returns the 20 most recent logs from this time forward. Use this to investigate past incidents by passing the incident timestamp. Accepts: ISO 8601 (e.g., '2024-01-15T10:30:00Z'), relative time (e.g., '1 hour ago', '2 days ago', '30 minutes ago'), or Unix timestamp. Examples: '2024-01-15 10:30:00', '1 hour ago', 'yesterday', 'now'. Pass any timestamp to see what happened from that point forward."
+          "Timestamp to get logs from. Returns up to 20 logs per page from this time forward. Use this to investigate past incidents by passing the incident timestamp. Accepts: ISO 8601 (e.g., '2024-01-15T10:30:00Z'), relative time (e.g., '1 hour ago', '2 days ago', '30 minutes ago'), or Unix timestamp. Examples: '2024-01-15 10:30:00', '1 hour ago', 'yesterday', 'now'. Pass any timestamp to see what happened from that point forward."
         ),
       sourceName: z
         .string()
         .optional()
         .describe(
-          "Source name. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
         ),
       limit: z
         .number()
         .optional()
         .default(20)
         .describe(
-          "Number of logs to return (default: 20, max: 20). Always returns the most recent logs from startTime forward, ordered by timestamp descending."
+          "Number of logs per page (default: 20, max: 20). Returns logs from startTime forward, ordered by timestamp ascending. Use nextCursor to continue."
         ),
       formatted: z
         .boolean()
@@ -438,72 +587,1279 @@ export function registerTools(server: McpServer, config: LogflareApiConfig): voi
         .describe(
           "If true, returns human-readable timestamps in addition to microsecond timestamps. Default: false."
         ),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Pagination cursor. Pass nextCursor (later logs) or previousCursor (earlier logs) from a previous response, with the same startTime, to continue the timeline."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
     },
-    async ({ startTime, sourceName, limit = 20, formatted = false }) => {
+    async ({ startTime, sourceName, limit = 20, formatted = false, cursor, bypassCache, ...output }) => {
       try {
-        const tableName = sourceName || sourceToken;
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
 
         const actualLimit = Math.min(limit || 20, 20);
 
         const startTimestamp = parseTimeToTimestamp(startTime);
+        const available = await getSourceColumns(logflare, source);
+        const columns = pickColumns(available, DEFAULT_LOG_COLUMNS);
+        const page: PageRequest = {
+          cursor,
+          order: "ASC",
+          pageSize: actualLimit,
+          hasId: hasColumn(available, "id"),
+        };
 
-        let sql: string;
+        const query = QueryBuilder.from(source.name).where(sql`timestamp >= ${raw(startTimestamp)}`);
 
         if (formatted) {
-          sql = `
-            SELECT 
-              event_message,
-              metadata,
-              level,
-              id,
-              FORMAT_TIMESTAMP('%Y-%m-%d %H:%M:%S', timestamp) as formatted_timestamp,
-              timestamp as timestamp_micros
-            FROM \`${tableName}\`
-            WHERE timestamp >= ${startTimestamp}
-            ORDER BY timestamp ASC
-            LIMIT ${actualLimit}
-          `;
+          query.select(
+            ...columns.filter((name) => name !== "timestamp"),
+            aliased(raw("FORMAT_TIMESTAMP('%Y-%m-%d %H:%M:%S', timestamp)"), "formatted_timestamp"),
+            aliased(raw("timestamp"), "timestamp_micros")
+          );
         } else {
-          sql = `
-            SELECT 
-              timestamp,
-              event_message,
-              metadata,
-              level,
-              id
-            FROM \`${tableName}\`
-            WHERE timestamp >= ${startTimestamp}
-            ORDER BY timestamp ASC
-            LIMIT ${actualLimit}
-          `;
+          query.select(...columns);
         }
 
-        const result = (await executeQuery(sql, config)) as unknown[];
+        const result = readPage(
+          await logflare.executeQuery(applyPage(query, page).build(), source.token),
+          page,
+          formatted ? "timestamp_micros" : "timestamp"
+        );
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(
+              text: formatOutput(
                 {
-                  source: tableName,
+                  source: source.name,
                   startTime: startTime,
-                  count: result.length,
-                  logs: result,
+                  count: result.rows.length,
+                  nextCursor: result.nextCursor,
+                  previousCursor: result.previousCursor,
+                  logs: result.rows,
+                },
+                output,
+                "logs"
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "search_logs",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      text: z
+        .string()
+        .optional()
+        .describe("Case-insensitive substring to match in event_message."),
+      levels: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Log levels to include, e.g. ['error', 'warn']. Uses the 'level' column, or 'metadata.level' when the source has no level column."
+        ),
+      fields: z
+        .array(
+          z.object({
+            path: z
+              .string()
+              .describe("Field path, e.g. 'metadata.user_id' or 'metadata.request.status'."),
+            op: z
+              .enum(["eq", "neq", "contains", "gt", "gte", "lt", "lte"])
+              .describe("Comparison: eq/neq for equality, contains for substring, gt/gte/lt/lte for ranges."),
+            value: z.union([z.string(), z.number(), z.boolean()]),
+          })
+        )
+        .optional()
+        .describe(
+          "Field filters, all of which must match. Nested metadata paths are unnested automatically. Use explore_fields to discover paths."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("24 hours ago")
+        .describe(
+          "Start of the time window (inclusive). Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '24 hours ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the time window (exclusive), same formats as 'since'. Default: now."),
+      order: z
+        .enum(["asc", "desc"])
+        .optional()
+        .default("desc")
+        .describe("Sort by timestamp: 'desc' for newest first (default), 'asc' for oldest first."),
+      limit: z
+        .number()
+        .optional()
+        .default(50)
+        .describe(`Number of logs per page (default: 50, max: ${MAX_SEARCH_RESULTS}).`),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Pagination cursor. Pass nextCursor (older/newer depending on order) or previousCursor from a previous response with the same filters to continue paging."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      text,
+      levels,
+      fields,
+      since = "24 hours ago",
+      until,
+      order = "desc",
+      limit = 50,
+      cursor,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+        const pageSize = Math.max(1, Math.min(limit, MAX_SEARCH_RESULTS));
+
+        const page: PageRequest = {
+          cursor,
+          order: order === "asc" ? "ASC" : "DESC",
+          pageSize,
+          hasId: hasColumn(columns, "id"),
+        };
+        const searchSql = applyPage(
+          compileLogSearch(source, columns, { text, levels, fields, since, until }),
+          page
+        ).build();
+
+        const result = readPage(await logflare.executeQuery(searchSql, source.token), page);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  count: result.rows.length,
+                  nextCursor: result.nextCursor,
+                  previousCursor: result.previousCursor,
+                  logs: result.rows,
+                  sql: searchSql,
+                },
+                output,
+                "logs"
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "get_log_histogram",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("24 hours ago")
+        .describe(
+          "Start of the time window (inclusive). Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '24 hours ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the time window (exclusive), same formats as 'since'. Default: now."),
+      interval: z
+        .enum(["minute", "hour", "day"])
+        .optional()
+        .describe(
+          "Bucket size. If omitted, chosen from the window: minute up to 2 hours, hour up to 3 days, day beyond."
+        ),
+      splitBy: z
+        .string()
+        .optional()
+        .describe(
+          "Break each bucket down by 'level' or a field path such as 'metadata.service'. The most frequent values are kept, the rest are grouped as 'other'."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ sourceName, since = "24 hours ago", until, interval, splitBy, bypassCache, ...output }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+        const window = resolveHistogramWindow(since, until, interval);
+        const options = { since, until, interval: window.interval, splitBy };
+
+        const histogramSql = compileHistogram(source, columns, options);
+        const histogram = buildHistogram(
+          await logflare.executeQuery(histogramSql, source.token),
+          window.start,
+          window.end,
+          options
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  since: window.start.toISOString(),
+                  until: window.end.toISOString(),
+                  splitBy: splitBy || null,
+                  ...histogram,
+                  sql: histogramSql,
                 },
-                null,
-                2
+                output,
+                "buckets"
               ),
             },
           ],
         };
       } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "detect_anomalies",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("1 hour ago")
+        .describe(
+          "Start of the recent window to check. Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '1 hour ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the recent window, same formats as 'since'. Default: now."),
+      interval: z
+        .enum(["minute", "hour", "day"])
+        .optional()
+        .describe("Bucket size. If omitted, chosen from the window as in get_log_histogram."),
+      baselineDays: z
+        .number()
+        .optional()
+        .default(7)
+        .describe(
+          `Number of previous days whose same buckets form the baseline (default: 7, max: ${MAX_BASELINE_DAYS}).`
+        ),
+      zThreshold: z
+        .number()
+        .optional()
+        .default(3)
+        .describe("Flag buckets at least this many standard deviations from the baseline mean (default: 3)."),
+      percentThreshold: z
+        .number()
+        .optional()
+        .default(100)
+        .describe("Flag buckets differing from the baseline mean by at least this percentage (default: 100)."),
+      minCount: z
+        .number()
+        .optional()
+        .default(10)
+        .describe(
+          "Ignore buckets where both the value and the baseline mean are below this count, to avoid flagging noise (default: 10)."
+        ),
+      topMessages: z
+        .number()
+        .optional()
+        .default(3)
+        .describe("Number of most frequent messages to report per flagged bucket (default: 3, max: 10)."),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      since = "1 hour ago",
+      until,
+      interval,
+      baselineDays = 7,
+      zThreshold = 3,
+      percentThreshold = 100,
+      minCount = 10,
+      topMessages = 3,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+        const window = resolveHistogramWindow(since, until, interval);
+        const options = {
+          baselineDays: Math.max(1, Math.min(Math.floor(baselineDays), MAX_BASELINE_DAYS)),
+          zThreshold,
+          percentThreshold,
+          minCount,
+        };
+
+        const countsSql = compileAnomalyCounts(source, columns, window, options.baselineDays);
+        const anomalies = findAnomalies(await logflare.executeQuery(countsSql, source.token), window, options);
+
+        const messageLimit = Math.max(0, Math.min(Math.floor(topMessages), 10));
+        if (anomalies.length > 0 && messageLimit > 0 && hasColumn(columns, "event_message")) {
+          const messagesSql = compileTopMessages(source, columns, window.interval, anomalies, messageLimit);
+          attachTopMessages(anomalies, await logflare.executeQuery(messagesSql, source.token));
+        }
+
         return {
-          content: [{ type: "text", text: `Error: ${errorMessage}` }],
-          isError: true,
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  since: window.start.toISOString(),
+                  until: window.end.toISOString(),
+                  interval: window.interval,
+                  baselineDays: options.baselineDays,
+                  anomalyCount: anomalies.length,
+                  anomalies,
+                  sql: countsSql,
+                },
+                output,
+                "anomalies"
+              ),
+            },
+          ],
         };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "cluster_log_messages",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("1 hour ago")
+        .describe(
+          "Start of the time window (inclusive). Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '1 hour ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the time window (exclusive), same formats as 'since'. Default: now."),
+      levels: z
+        .array(z.string())
+        .optional()
+        .describe("Log levels to include, e.g. ['error']. Default: all levels."),
+      text: z
+        .string()
+        .optional()
+        .describe("Case-insensitive substring to match in event_message before clustering."),
+      sampleSize: z
+        .number()
+        .optional()
+        .default(1000)
+        .describe(`Number of most recent matching logs to cluster (default: 1000, max: ${MAX_QUERY_LIMIT}).`),
+      maxPatterns: z
+        .number()
+        .optional()
+        .default(20)
+        .describe(`Number of patterns to return, most frequent first (default: 20, max: ${MAX_LOG_PATTERNS}).`),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      since = "1 hour ago",
+      until,
+      levels,
+      text,
+      sampleSize = 1000,
+      maxPatterns = 20,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+        if (!hasColumn(columns, "event_message")) {
+          throw new Error(`Source '${source.name}' has no event_message column to cluster.`);
+        }
+
+        const limit = Math.max(1, Math.min(sampleSize, MAX_QUERY_LIMIT));
+        const clusterSql = compileLogSearch(source, columns, { text, levels, since, until })
+          .orderBy("timestamp", "DESC")
+          .limit(limit)
+          .build();
+
+        const rows = await logflare.executeQuery(clusterSql, source.token);
+        const patterns = clusterMessages(rows, Math.max(1, Math.min(maxPatterns, MAX_LOG_PATTERNS)));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  analyzedLogs: rows.length,
+                  sampled: rows.length === limit,
+                  patternCount: patterns.length,
+                  patterns,
+                  sql: clusterSql,
+                },
+                output,
+                "patterns"
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "compare_windows",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      afterSince: z
+        .string()
+        .describe(
+          "Start of the 'after' window, e.g. the deploy time. Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp."
+        ),
+      afterUntil: z
+        .string()
+        .optional()
+        .describe("End of the 'after' window, same formats. Default: now."),
+      beforeSince: z
+        .string()
+        .optional()
+        .describe("Start of the 'before' window. Default: the 'after' window's length before afterSince."),
+      beforeUntil: z
+        .string()
+        .optional()
+        .describe("End of the 'before' window. Default: afterSince."),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          `Field paths whose value distributions to compare, e.g. ['metadata.region', 'metadata.status'] (max: ${MAX_COMPARED_FIELDS}).`
+        ),
+      sampleSize: z
+        .number()
+        .optional()
+        .default(1000)
+        .describe(
+          `Most recent logs per window used to compare message patterns (default: 1000, max: ${MAX_QUERY_LIMIT}).`
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      afterSince,
+      afterUntil,
+      beforeSince,
+      beforeUntil,
+      fields = [],
+      sampleSize = 1000,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+
+        const now = new Date();
+        const afterStart = parseTimeToDate(afterSince, now);
+        const afterEnd = afterUntil ? parseTimeToDate(afterUntil, now) : now;
+        const beforeEnd = beforeUntil ? parseTimeToDate(beforeUntil, now) : afterStart;
+        const beforeStart = beforeSince
+          ? parseTimeToDate(beforeSince, now)
+          : new Date(beforeEnd.getTime() - (afterEnd.getTime() - afterStart.getTime()));
+
+        const windows: Record<ComparedWindow["label"], ComparedWindow> = {
+          before: { label: "before", start: beforeStart, end: beforeEnd },
+          after: { label: "after", start: afterStart, end: afterEnd },
+        };
+        for (const window of Object.values(windows)) {
+          if (window.end.getTime() <= window.start.getTime()) {
+            throw new Error(`Invalid '${window.label}' window: its start is not before its end.`);
+          }
+        }
+        if (fields.length > MAX_COMPARED_FIELDS) {
+          throw new Error(`Too many fields: ${fields.length} (max ${MAX_COMPARED_FIELDS}).`);
+        }
+
+        const windowList = [windows.before, windows.after];
+        const levelRows = await logflare.executeQuery(
+          compileLevelCounts(source, columns, windowList),
+          source.token
+        );
+        const totals = periodTotals(levelRows);
+
+        const limit = Math.max(1, Math.min(sampleSize, MAX_QUERY_LIMIT));
+        const patterns = hasColumn(columns, "event_message")
+          ? comparePatterns(
+              await logflare.executeQuery(
+                compileWindowMessages(source, columns, windows.before, limit),
+                source.token
+              ),
+              await logflare.executeQuery(
+                compileWindowMessages(source, columns, windows.after, limit),
+                source.token
+              ),
+              windows,
+              totals
+            )
+          : null;
+
+        const fieldDeltas: Record<string, unknown> = {};
+        for (const path of fields) {
+          fieldDeltas[path] = compareDistributions(
+            await logflare.executeQuery(
+              compileValueCounts(source, windowList, path, MAX_COMPARED_VALUES),
+              source.token
+            )
+          ).slice(0, MAX_COMPARED_VALUES);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  before: { since: beforeStart.toISOString(), until: beforeEnd.toISOString() },
+                  after: { since: afterStart.toISOString(), until: afterEnd.toISOString() },
+                  volume: compareVolume(totals, windows),
+                  levels: compareDistributions(levelRows),
+                  patterns,
+                  fields: fieldDeltas,
+                },
+                output
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "trace_request",
+    {
+      id: z.string().describe("Request, trace or correlation id to follow across sources."),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Field paths that may hold the id, e.g. ['metadata.request_id']. If omitted, fields named like request_id, trace_id or correlation_id are discovered from recent logs of each source."
+        ),
+      sourceNames: z
+        .array(z.string())
+        .optional()
+        .describe("Sources to search (names, ids or tokens). Default: every source from list_sources."),
+      since: z
+        .string()
+        .optional()
+        .default("24 hours ago")
+        .describe(
+          "Start of the time window (inclusive). Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '24 hours ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the time window (exclusive), same formats as 'since'. Default: now."),
+      matchMessage: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Also match events whose event_message contains the id. Default: false."),
+      limit: z
+        .number()
+        .optional()
+        .default(200)
+        .describe(`Maximum number of events in the timeline (default: 200, max: ${MAX_QUERY_LIMIT}).`),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      id,
+      fields,
+      sourceNames,
+      since = "24 hours ago",
+      until,
+      matchMessage = false,
+      limit = 200,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const sources = sourceNames
+          ? await Promise.all(sourceNames.map((name) => scope.resolve(name)))
+          : await scope.list({ bypassCache });
+        const options = {
+          id,
+          fields,
+          since,
+          until,
+          matchMessage,
+          limit: Math.max(1, Math.min(limit, MAX_QUERY_LIMIT)),
+        };
+
+        const results = await Promise.all(sources.map((source) => traceSource(logflare, source, options)));
+        const timeline = mergeTimeline(results, options.limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  id,
+                  searchedSources: results.map(({ source, fields, events, error }) => ({
+                    source,
+                    fields,
+                    matches: events.length,
+                    ...(error ? { error } : {}),
+                  })),
+                  eventCount: timeline.events.length,
+                  truncated: timeline.truncated,
+                  timeline: timeline.events,
+                },
+                output,
+                "timeline"
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "get_log_context",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      id: z.string().optional().describe("Id of the log event to show context around."),
+      timestamp: z
+        .string()
+        .optional()
+        .describe(
+          "Used when no id is given: the context is anchored on the first event at or after this time. Accepts ISO 8601, relative time or Unix timestamp."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("7 days ago")
+        .describe("How far back to look for the event with the given id. Default: '7 days ago'."),
+      before: z
+        .number()
+        .optional()
+        .default(10)
+        .describe(`Number of events to show before the anchor (default: 10, max: ${MAX_CONTEXT_EVENTS}).`),
+      after: z
+        .number()
+        .optional()
+        .default(10)
+        .describe(`Number of events to show after the anchor (default: 10, max: ${MAX_CONTEXT_EVENTS}).`),
+      withinMinutes: z
+        .number()
+        .optional()
+        .default(60)
+        .describe("Only include events at most this many minutes from the anchor (default: 60, max: 1440)."),
+      matchFields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Only include events sharing the anchor's value for these fields, e.g. ['metadata.user_id', 'metadata.host']."
+        ),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      id,
+      timestamp,
+      since = "7 days ago",
+      before = 10,
+      after = 10,
+      withinMinutes = 60,
+      matchFields = [],
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+
+        const anchorSql = compileAnchorQuery(source, columns, { id, timestamp, since });
+        const [anchor] = await logflare.executeQuery(anchorSql, source.token);
+        if (!anchor || typeof anchor.timestamp !== "number") {
+          throw new Error(
+            id !== undefined
+              ? `No log with id '${id}' found in '${source.name}' since ${since}.`
+              : `No log found in '${source.name}' at or after ${timestamp}.`
+          );
+        }
+
+        const matched: Record<string, string> = {};
+        const unmatched: string[] = [];
+        for (const path of matchFields) {
+          const value = readFieldValue(anchor, path);
+          if (value === undefined) {
+            unmatched.push(path);
+          } else {
+            matched[path] = String(value);
+          }
+        }
+
+        const conditions = correlationConditions(matched);
+        const within = Math.max(1, Math.min(Math.floor(withinMinutes), 1440));
+        const side = async (name: "before" | "after", count: number) => {
+          const limit = Math.min(Math.floor(count), MAX_CONTEXT_EVENTS);
+          return limit > 0
+            ? logflare.executeQuery(
+                compileContextQuery(source, columns, anchor, name, limit, within, conditions),
+                source.token
+              )
+            : [];
+        };
+
+        const beforeRows = (await side("before", before)).reverse();
+        const afterRows = await side("after", after);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  matchedFields: matched,
+                  ...(unmatched.length > 0 ? { unmatchedFields: unmatched } : {}),
+                  before: beforeRows,
+                  anchor,
+                  after: afterRows,
+                },
+                output
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "profile_fields",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      since: z
+        .string()
+        .optional()
+        .default("24 hours ago")
+        .describe(
+          "Start of the window for server-side statistics. Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '24 hours ago'."
+        ),
+      sampleSize: z
+        .number()
+        .optional()
+        .default(100)
+        .describe(`Number of recent logs sampled to discover fields (default: 100, max: ${MAX_QUERY_LIMIT}).`),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe(
+          `Field paths to compute statistics for (max: ${MAX_PROFILED_FIELDS}). Default: the first ${MAX_PROFILED_FIELDS} non-repeated scalar fields found, excluding timestamps.`
+        ),
+      topValues: z
+        .number()
+        .optional()
+        .default(5)
+        .describe("Number of most frequent values to report per field (default: 5, max: 20)."),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ sourceName, since = "24 hours ago", sampleSize = 100, fields, topValues = 5, bypassCache, ...output }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const { profiles, sampledLogs } = await discoverFields(
+          logflare,
+          source,
+          since,
+          Math.max(1, Math.min(sampleSize, MAX_QUERY_LIMIT))
+        );
+
+        const scalarPaths = profiles
+          .filter((profile) => !["RECORD", "TIMESTAMP"].includes(profile.type) && !profile.repeated)
+          .map((profile) => profile.path);
+        const statsPaths = fields || scalarPaths.slice(0, MAX_PROFILED_FIELDS);
+        if (statsPaths.length > 0) {
+          const statsSql = compileFieldStats(source, statsPaths, since, Math.max(1, Math.min(topValues, 20)));
+          const [stats] = await logflare.executeQuery(statsSql, source.token);
+          applyFieldStats(profiles, statsPaths, stats);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  source: source.name,
+                  sampledLogs,
+                  fieldCount: profiles.length,
+                  profiledFields: statsPaths,
+                  fields: profiles,
+                },
+                output,
+                "fields"
+              ),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "top_values",
+    {
+      sourceName: z
+        .string()
+        .optional()
+        .describe(
+          "Source name, id or token. Get source names using list_sources tool first. If not provided, uses the configured source from connection."
+        ),
+      field: z
+        .string()
+        .describe(
+          "Field to count values of, e.g. 'metadata.host' or 'metadata.request.path'. Nested metadata paths are unnested automatically."
+        ),
+      text: z
+        .string()
+        .optional()
+        .describe("Only count logs whose event_message contains this case-insensitive substring."),
+      levels: z
+        .array(z.string())
+        .optional()
+        .describe("Only count logs at these levels, e.g. ['error']."),
+      fields: z
+        .array(
+          z.object({
+            path: z.string().describe("Field path, e.g. 'metadata.user_id'."),
+            op: z
+              .enum(["eq", "neq", "contains", "gt", "gte", "lt", "lte"])
+              .describe("Comparison: eq/neq for equality, contains for substring, gt/gte/lt/lte for ranges."),
+            value: z.union([z.string(), z.number(), z.boolean()]),
+          })
+        )
+        .optional()
+        .describe("Field filters, as in search_logs, that logs must match to be counted."),
+      since: z
+        .string()
+        .optional()
+        .default("24 hours ago")
+        .describe(
+          "Start of the time window (inclusive). Accepts ISO 8601, relative time (e.g., '1 hour ago') or Unix timestamp. Default: '24 hours ago'."
+        ),
+      until: z
+        .string()
+        .optional()
+        .describe("End of the time window (exclusive), same formats as 'since'. Default: now."),
+      limit: z
+        .number()
+        .optional()
+        .default(10)
+        .describe(`Number of values to return (default: 10, max: ${MAX_TOP_VALUES}). The rest are counted as 'other'.`),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({
+      sourceName,
+      field,
+      text,
+      levels,
+      fields,
+      since = "24 hours ago",
+      until,
+      limit = 10,
+      bypassCache,
+      ...output
+    }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const source = await scope.resolve(sourceName);
+        const columns = await getSourceColumns(logflare, source);
+
+        const topSql = compileTopValues(
+          source,
+          columns,
+          field,
+          { text, levels, fields, since, until },
+          Math.max(1, Math.min(limit, MAX_TOP_VALUES))
+        );
+        const result = buildTopValues(await logflare.executeQuery(topSql, source.token));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput({ source: source.name, field, ...result, sql: topSql }, output, "values"),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "save_query",
+    {
+      name: z.string().describe("Name to save the query under: up to 64 letters, digits, '_' or '-'."),
+      sql: z
+        .string()
+        .describe(
+          "BigQuery SQL template, checked by the same rules as query_logs. Reference parameters as {{name}}, without quotes, e.g. WHERE timestamp > {{since}} AND user_id = {{user_id}}."
+        ),
+      description: z.string().optional().describe("What the query answers."),
+      parameters: z
+        .record(
+          z.object({
+            type: z
+              .enum(["string", "number", "timestamp"])
+              .default("string")
+              .describe("'timestamp' accepts the time formats of the other tools, e.g. '1 hour ago'."),
+            description: z.string().optional(),
+            default: z.string().optional().describe("Value used when run_saved_query does not pass one."),
+          })
+        )
+        .optional()
+        .describe("Parameter declarations by name. Undeclared placeholders are required strings."),
+      overwrite: z.boolean().optional().describe("Replace an existing query with the same name (default: false)."),
+      ...outputParams,
+    },
+    async ({ name, sql, description, parameters, overwrite = false, ...output }) => {
+      try {
+        const existing = await savedQueries.get(owner, name);
+        if (existing && !overwrite) {
+          throw new Error(`A saved query named '${name}' already exists. Pass overwrite: true to replace it.`);
+        }
+        if (!existing && (await savedQueries.list(owner)).length >= MAX_SAVED_QUERIES) {
+          throw new Error(`At most ${MAX_SAVED_QUERIES} queries can be saved. Delete one with delete_saved_query.`);
+        }
+
+        const now = new Date().toISOString();
+        const query: SavedQuery = {
+          name,
+          description,
+          sql,
+          parameters: defineSavedQuery(name, sql, parameters),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+        const checked = await checkQuery(renderSampleQuery(query));
+        await savedQueries.save(owner, query);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput({ saved: name, parameters: query.parameters, replaced: Boolean(existing) }, output),
+            },
+            ...checked.adjustments.map((adjustment) => ({
+              type: "text" as const,
+              text: `Note: ${adjustment}`,
+            })),
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "list_saved_queries",
+    {
+      ...outputParams,
+    },
+    async (output) => {
+      try {
+        const queries = await savedQueries.list(owner);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput({ queries }, output, "queries"),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "run_saved_query",
+    {
+      name: z.string().describe("Name of the saved query. Use list_saved_queries to see saved queries."),
+      parameters: z
+        .record(z.string())
+        .optional()
+        .describe("Parameter values by name, as strings. Parameters with a default may be omitted."),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ name, parameters, bypassCache, ...output }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const query = await savedQueries.get(owner, name);
+        if (!query) {
+          throw new Error(`No saved query named '${name}'. Use list_saved_queries to see saved queries.`);
+        }
+
+        const checked = await checkQuery(renderSavedQuery(query, parameters));
+        const result = await logflare.executeQuery(checked.sql);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput(result, output),
+            },
+            ...checked.adjustments.map((adjustment) => ({
+              type: "text" as const,
+              text: `Note: ${adjustment}`,
+            })),
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "delete_saved_query",
+    {
+      name: z.string().describe("Name of the saved query to delete."),
+      ...outputParams,
+    },
+    async ({ name, ...output }) => {
+      try {
+        if (!(await savedQueries.delete(owner, name))) {
+          throw new Error(`No saved query named '${name}'. Use list_saved_queries to see saved queries.`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatOutput({ deleted: name }, output),
+            },
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
+      }
+    }
+  );
+
+  server.tool(
+    "export_query",
+    {
+      sql: z
+        .string()
+        .describe(
+          `BigQuery SQL whose full result is written to a file instead of returned inline, for result sets too large for query_logs. The same rules as query_logs apply, except that no LIMIT is added: maxRows caps the export, and a LIMIT of your own must come with an ORDER BY. The SELECT list must include the timestamp column (SELECT * does), as results are paged by timestamp, then id when selected. Returns a logflare://exports/ resource link to read or attach the file.`
+        ),
+      fileFormat: z
+        .enum(["ndjson", "csv", "parquet"])
+        .optional()
+        .default("ndjson")
+        .describe(
+          "File format: 'ndjson' (default, one JSON row per line), 'csv' (nested values as JSON) or 'parquet' (flat columns, nested values as JSON strings)."
+        ),
+      maxRows: z
+        .number()
+        .optional()
+        .default(10000)
+        .describe(`Maximum rows to export (default: 10000, max: ${MAX_EXPORT_ROWS}).`),
+      order: z
+        .enum(["asc", "desc"])
+        .optional()
+        .default("asc")
+        .describe("Order of the rows by timestamp: 'asc' for oldest first (default), 'desc' for newest first."),
+      bypassCache: bypassCacheParam,
+      ...outputParams,
+    },
+    async ({ sql, fileFormat = "ndjson", maxRows = 10000, order = "asc", bypassCache, ...output }) => {
+      try {
+        const logflare = bypassCache ? client.withoutCache() : client;
+        const rowLimit = Math.max(1, Math.min(maxRows, MAX_EXPORT_ROWS));
+        const checked = await checkPagedQuery(sql, rowLimit);
+        const wildcard = checked.projection.some((item) => item.isWildcard);
+        const selects = (column: string) =>
+          checked.projection.some((item) => item.outputName?.toLowerCase() === column);
+
+        if (!wildcard && !selects("timestamp")) {
+          throw new QueryRejectedError([
+            {
+              code: "missing_timestamp_column",
+              message: "The SELECT list must include the timestamp column.",
+              hint: "Add timestamp to the selected columns so the results can be paged.",
+            },
+          ]);
+        }
+
+        const page: PageRequest = {
+          order: order === "asc" ? "ASC" : "DESC",
+          pageSize: Math.min(rowLimit, MAX_QUERY_LIMIT),
+          hasId: await selectsId(checked),
+        };
+        const rows: Record<string, unknown>[] = [];
+        let limitReached = false;
+        for (;;) {
+          const pageSql = applyPage(QueryBuilder.fromSubquery(checked.sql).select(raw("*")), page).build();
+          const result = readPage(await logflare.executeQuery(pageSql), page);
+          rows.push(...result.rows);
+          if (!result.nextCursor) {
+            break;
+          }
+          if (rows.length >= rowLimit) {
+            limitReached = true;
+            break;
+          }
+          // The last page only asks for the rows left, plus one to tell whether more match.
+          page.pageSize = Math.min(rowLimit - rows.length, MAX_QUERY_LIMIT);
+          page.cursor = result.nextCursor;
+        }
+
+        const record = await queryExports.write(owner, fileFormat, rows, checked.sql);
+        server.sendResourceListChanged();
+
+        return {
+          content: [
+            {
+              type: "resource_link",
+              uri: exportUri(record.id),
+              name: record.fileName,
+              mimeType: record.mimeType,
+              description: `${record.rows} rows of query results, available until ${record.expiresAt}.`,
+            },
+            {
+              type: "text",
+              text: formatOutput(
+                {
+                  uri: exportUri(record.id),
+                  format: record.format,
+                  rows: record.rows,
+                  bytes: record.bytes,
+                  limitReached,
+                  expiresAt: record.expiresAt,
+                },
+                output
+              ),
+            },
+            ...(limitReached
+              ? [
+                  {
+                    type: "text" as const,
+                    text: `Note: The export reached ${rowLimit} rows, so more rows may match. Narrow the time range or raise maxRows.`,
+                  },
+                ]
+              : []),
+            ...checked.adjustments.map((adjustment) => ({
+              type: "text" as const,
+              text: `Note: ${adjustment}`,
+            })),
+          ],
+        };
+      } catch (error: unknown) {
+        return toolError(error);
       }
     }
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,144 @@
+/**
+ * Follows a request or trace id across every accessible source.
+ */
+
+import { DEFAULT_LOG_COLUMNS, TRACE_DISCOVERY_SAMPLE_SIZE } from "./config.js";
+import { LogflareClient } from "./logflare.js";
+import { QueryBuilder, SqlFragment, nestedFieldCondition, raw, sql } from "./queryBuilder.js";
+import { getSourceColumns, hasColumn, pickColumns } from "./schema.js";
+import { LogflareSource, TraceOptions, TraceSourceResult } from "./types.js";
+import { parseTimeToTimestamp, timestampToMs } from "./utils.js";
+
+/**
+ * Field names that usually carry a correlation id, e.g. `request_id`,
+ * `traceId` or `x-correlation-id`.
+ */
+const TRACE_FIELD_PATTERN = /^(x[_-]?)?(request|req|trace|correlation|transaction)[_-]?id$/i;
+
+/**
+ * Collects the dotted paths of all scalar fields, walking into nested
+ * records and arrays of records.
+ */
+function collectFieldPaths(value: unknown, prefix: string, paths: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectFieldPaths(item, prefix, paths));
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectFieldPaths(child, prefix ? `${prefix}.${key}` : key, paths);
+    }
+    return;
+  }
+  if (prefix) {
+    paths.add(prefix);
+  }
+}
+
+/**
+ * Finds the fields of sampled rows whose names look like correlation ids.
+ */
+export function discoverTraceFields(rows: Record<string, unknown>[]): string[] {
+  const paths = new Set<string>();
+  rows.forEach((row) => collectFieldPaths(row, "", paths));
+  return [...paths].filter((path) => path.includes(".") && TRACE_FIELD_PATTERN.test(path.split(".").pop() || ""));
+}
+
+/**
+ * Builds the condition matching the id in any of the fields, and
+ * optionally anywhere in the event message.
+ */
+function traceCondition(columns: Set<string>, fields: string[], options: TraceOptions): SqlFragment {
+  const matches = fields.map((path) =>
+    nestedFieldCondition(path, (field) => sql`CAST(${field} AS STRING) = ${options.id}`)
+  );
+  if (options.matchMessage && hasColumn(columns, "event_message")) {
+    matches.push(sql`STRPOS(event_message, ${options.id}) > 0`);
+  }
+  return raw(matches.map((match) => `(${match.text})`).join(" OR "));
+}
+
+/**
+ * Compiles the query for one source's events carrying the id.
+ */
+export function compileTraceQuery(
+  source: LogflareSource,
+  columns: Set<string>,
+  fields: string[],
+  options: TraceOptions
+): string {
+  const query = QueryBuilder.from(source.name)
+    .select(...pickColumns(columns, DEFAULT_LOG_COLUMNS))
+    .where(sql`timestamp >= ${raw(parseTimeToTimestamp(options.since))}`);
+
+  if (options.until) {
+    query.where(sql`timestamp < ${raw(parseTimeToTimestamp(options.until))}`);
+  }
+
+  return query
+    .where(traceCondition(columns, fields, options))
+    .orderBy("timestamp", "ASC")
+    .limit(options.limit + 1)
+    .build();
+}
+
+/**
+ * Searches one source, discovering its correlation fields from recent logs
+ * when none are given. Failures are reported on the result instead of
+ * thrown, so one unreadable source does not abort the whole trace.
+ */
+export async function traceSource(
+  client: LogflareClient,
+  source: LogflareSource,
+  options: TraceOptions
+): Promise<TraceSourceResult> {
+  const result: TraceSourceResult = { source: source.name, fields: [], events: [] };
+
+  try {
+    const columns = await getSourceColumns(client, source);
+
+    result.fields = options.fields || [];
+    if (!options.fields && hasColumn(columns, "metadata")) {
+      const sampleSql = QueryBuilder.from(source.name)
+        .select("metadata")
+        .where(sql`timestamp >= ${raw(parseTimeToTimestamp(options.since))}`)
+        .orderBy("timestamp", "DESC")
+        .limit(TRACE_DISCOVERY_SAMPLE_SIZE)
+        .build();
+      result.fields = discoverTraceFields(await client.executeQuery(sampleSql, source.token));
+    }
+
+    if (result.fields.length === 0 && !options.matchMessage) {
+      return result;
+    }
+
+    const rows = await client.executeQuery(
+      compileTraceQuery(source, columns, result.fields, options),
+      source.token
+    );
+    result.events = rows.map((row) => ({ source: source.name, ...row }));
+  } catch (error: unknown) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+/**
+ * Merges per-source events into one timeline, oldest first, adding a
+ * readable `time` to each event.
+ */
+export function mergeTimeline(
+  results: TraceSourceResult[],
+  limit: number
+): { events: Record<string, unknown>[]; truncated: boolean } {
+  const events = results
+    .flatMap((result) => result.events)
+    .map((event) => {
+      const ms = event.timestamp === undefined || event.timestamp === null ? NaN : timestampToMs(event.timestamp);
+      return { time: isNaN(ms) ? null : new Date(ms).toISOString(), ...event };
+    })
+    .sort((a, b) => (a.time || "").localeCompare(b.time || ""));
+
+  return { events: events.slice(0, limit), truncated: events.length > limit };
+}
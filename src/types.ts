@@ -4,17 +4,51 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { ResponseCache } from "./cache.js";
 
 export interface Session {
   server: McpServer;
-  transport: SSEServerTransport;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
   timeout: NodeJS.Timeout;
+  record: SessionRecord;
+}
+
+/**
+ * What is shared about a session across server instances. Live transports
+ * stay in the instance that holds them.
+ */
+export interface SessionRecord {
+  id: string;
+  transport: "sse" | "streamable-http";
+  /** SHA-256 hash of the Logflare API key the session uses. */
+  owner: string;
+  /** Authenticated client that opened the session, when server auth is enabled. */
+  clientId?: string;
+  /** Server instance currently holding the session's transport. */
+  instanceId: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Shares session records between server instances. Records expire after
+ * the session timeout unless saved again.
+ */
+export interface SessionStore {
+  save(record: SessionRecord): Promise<void>;
+  get(id: string): Promise<SessionRecord | undefined>;
+  delete(record: SessionRecord): Promise<void>;
+  countByOwner(owner: string): Promise<number>;
+  list(): Promise<SessionRecord[]>;
+  close(): Promise<void>;
 }
 
 export interface LogflareSource {
-  id?: string;
-  name?: string;
-  description?: string;
+  id: string;
+  name: string;
+  token: string;
+  description: string;
 }
 
 export interface FieldInfo {
@@ -25,6 +59,322 @@ export interface FieldInfo {
 
 export interface LogflareApiConfig {
   apiKey: string;
-  sourceToken: string;
+  /** Primary source, used when a tool call names no source. */
+  sourceToken?: string;
+  /** Source names, ids or tokens this connection may use; undefined allows every source visible to the key. */
+  allowedSources?: string[];
+  /** Tool names this connection may call; undefined allows every tool. */
+  allowedTools?: string[];
+  /** The authenticated client the connection belongs to, when the server authenticates clients. */
+  clientId?: string;
 }
 
+/**
+ * A client of the server when server-level authentication is enabled,
+ * with the Logflare credentials and access its connections get.
+ */
+export interface ClientPolicy {
+  id: string;
+  /** Hex SHA-256 digest of the client's bearer token. */
+  tokenSha256: string;
+  apiKey: string;
+  sourceToken?: string;
+  /** Allowed source names, ids or tokens, or "*" (the default) for every source. */
+  sources?: "*" | string[];
+  /** Allowed tool names; omitted allows every tool. */
+  tools?: string[];
+}
+
+export interface LogflareClientOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  /** Response cache shared by every client in the process. */
+  cache?: ResponseCache;
+  /** Ignore cached responses, still caching fresh ones. */
+  bypassCache?: boolean;
+}
+
+export type QueryViolationCode =
+  | "parse_error"
+  | "multiple_statements"
+  | "not_select"
+  | "forbidden_keyword"
+  | "unknown_table"
+  | "missing_timestamp_filter"
+  | "limit_not_literal"
+  | "unordered_limit"
+  | "wildcard_projection"
+  | "missing_timestamp_column";
+
+export interface QueryViolation {
+  code: QueryViolationCode;
+  message: string;
+  hint?: string;
+}
+
+export interface QueryPolicy {
+  allowedTables: string[];
+  maxLimit: number;
+  requireTimestampFilter: boolean;
+  /** Add `LIMIT maxLimit` when the query has none (default: true). Paged callers limit each page instead. */
+  addLimit?: boolean;
+}
+
+export interface SqlTableReference {
+  name: string;
+  alias: string | null;
+  tokenIndex: number;
+}
+
+export interface SqlProjectionItem {
+  text: string;
+  outputName: string | null;
+  isWildcard: boolean;
+}
+
+export interface CheckedQuery {
+  sql: string;
+  tables: string[];
+  projection: SqlProjectionItem[];
+  adjustments: string[];
+  /** Whether the statement has its own top-level LIMIT. */
+  limited: boolean;
+  /** Whether the statement has a top-level ORDER BY. */
+  ordered: boolean;
+}
+
+export interface LogCursor {
+  timestamp: number;
+  id: string | null;
+  direction: "forward" | "backward";
+}
+
+export interface PageRequest {
+  cursor?: string;
+  order: "ASC" | "DESC";
+  pageSize: number;
+  hasId: boolean;
+}
+
+export interface LogPage {
+  rows: Record<string, unknown>[];
+  nextCursor: string | null;
+  previousCursor: string | null;
+}
+
+export type FieldFilterOperator = "eq" | "neq" | "contains" | "gt" | "gte" | "lt" | "lte";
+
+export interface FieldFilter {
+  path: string;
+  op: FieldFilterOperator;
+  value: string | number | boolean;
+}
+
+export interface LogSearchFilter {
+  text?: string;
+  levels?: string[];
+  fields?: FieldFilter[];
+  since: string;
+  until?: string;
+}
+
+export type HistogramInterval = "minute" | "hour" | "day";
+
+export interface HistogramWindow {
+  start: Date;
+  end: Date;
+  interval: HistogramInterval;
+}
+
+export interface HistogramOptions {
+  since: string;
+  until?: string;
+  interval: HistogramInterval;
+  splitBy?: string;
+}
+
+export interface HistogramBucket {
+  start: string;
+  total: number;
+  errors: number;
+  errorRate: number;
+  splits?: Record<string, number>;
+}
+
+export interface HistogramResult {
+  interval: HistogramInterval;
+  buckets: HistogramBucket[];
+  totals: { total: number; errors: number; errorRate: number };
+  peak: HistogramBucket | null;
+  firstError: HistogramBucket | null;
+}
+
+export interface AnomalyOptions {
+  baselineDays: number;
+  zThreshold: number;
+  percentThreshold: number;
+  minCount: number;
+}
+
+export interface AnomalyMessage {
+  message: string;
+  count: number;
+  errors: number;
+}
+
+export interface Anomaly {
+  start: string;
+  metric: "volume" | "errors";
+  direction: "spike" | "drop";
+  value: number;
+  baselineMean: number;
+  baselineStdDev: number;
+  zScore: number | null;
+  percentChange: number | null;
+  topMessages: AnomalyMessage[];
+}
+
+export interface LogPattern {
+  pattern: string;
+  count: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  example: string;
+  sampleMetadata: unknown;
+}
+
+export interface ComparedWindow {
+  label: "before" | "after";
+  start: Date;
+  end: Date;
+}
+
+export interface DistributionDelta {
+  value: string;
+  before: number;
+  after: number;
+  beforeShare: number;
+  afterShare: number;
+  shareChange: number;
+}
+
+export interface PatternDelta {
+  pattern: string;
+  example: string;
+  beforePerHour: number;
+  afterPerHour: number;
+  changePercent: number | null;
+}
+
+export interface PatternComparison {
+  new: PatternDelta[];
+  vanished: PatternDelta[];
+  increased: PatternDelta[];
+}
+
+export interface TraceOptions {
+  id: string;
+  fields?: string[];
+  since: string;
+  until?: string;
+  matchMessage: boolean;
+  limit: number;
+}
+
+export interface TraceSourceResult {
+  source: string;
+  fields: string[];
+  events: Record<string, unknown>[];
+  error?: string;
+}
+
+export interface LogContextAnchor {
+  id?: string;
+  timestamp?: string;
+  since: string;
+}
+
+export interface SchemaField {
+  type: string;
+  repeated: boolean;
+}
+
+export interface FieldTopValue {
+  value: string | null;
+  count: number;
+  percent: number;
+}
+
+export interface FieldProfile {
+  path: string;
+  type: string;
+  repeated: boolean;
+  foundIn: "schema" | "sample" | "both";
+  sampleNullRate: number | null;
+  nullRate?: number;
+  approxDistinct?: number;
+  topValues?: FieldTopValue[];
+}
+
+export interface TopValuesResult {
+  total: number;
+  distinctValues: number;
+  values: FieldTopValue[];
+  other: { count: number; percent: number };
+}
+
+export type SavedQueryParameterType = "string" | "number" | "timestamp";
+
+export interface SavedQueryParameter {
+  type: SavedQueryParameterType;
+  description?: string;
+  default?: string;
+}
+
+export interface SavedQuery {
+  name: string;
+  description?: string;
+  sql: string;
+  parameters: Record<string, SavedQueryParameter>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persists saved queries, keyed by owner (a hash of the Logflare API key,
+ * plus the authenticated client if any) and query name.
+ */
+export interface SavedQueryStore {
+  list(owner: string): Promise<SavedQuery[]>;
+  get(owner: string, name: string): Promise<SavedQuery | undefined>;
+  save(owner: string, query: SavedQuery): Promise<void>;
+  delete(owner: string, name: string): Promise<boolean>;
+}
+
+export type OutputFormat = "json" | "jsonl" | "markdown" | "csv";
+
+export interface OutputOptions {
+  format?: OutputFormat;
+  /** Output budget in characters; results over it are truncated with markers. */
+  maxChars?: number;
+  /** Dotted paths to keep in each row, e.g. `metadata.user_id`. */
+  outputFields?: string[];
+}
+
+export type ExportFormat = "ndjson" | "csv" | "parquet";
+
+export interface ExportRecord {
+  id: string;
+  /** Hash of the Logflare API key that created the export. */
+  owner: string;
+  format: ExportFormat;
+  fileName: string;
+  mimeType: string;
+  rows: number;
+  bytes: number;
+  sql: string;
+  createdAt: string;
+  expiresAt: string;
+}
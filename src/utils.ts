@@ -1,7 +1,9 @@
 /**
- * Utility functions for time parsing and field analysis.
+ * Utility functions for time parsing, field analysis, SQL identifiers and
+ * API key hashing.
  */
 
+import { createHash } from "node:crypto";
 import { FieldInfo } from "./types.js";
 
 /**
@@ -58,6 +60,66 @@ export function parseTimeToTimestamp(timeStr: string): string {
   );
 }
 
+/**
+ * Parses the same time formats as `parseTimeToTimestamp` to a JavaScript
+ * Date, for computing window lengths client-side. Months and years are
+ * approximated as 30 and 365 days.
+ */
+export function parseTimeToDate(timeStr: string, now: Date = new Date()): Date {
+  const lower = timeStr.toLowerCase().trim();
+
+  if (lower === "now" || lower === "current") {
+    return now;
+  }
+
+  const unitMs: Record<string, number> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000,
+    year: 365 * 24 * 60 * 60 * 1000,
+  };
+
+  const relativeMatch =
+    lower.match(/(\d+)\s*(second|minute|hour|day|week|month|year)s?\s*ago/i) ||
+    lower.match(/last\s+(\d+)\s*(second|minute|hour|day|week|month|year)s?/i);
+  if (relativeMatch) {
+    const amount = parseInt(relativeMatch[1]);
+    return new Date(now.getTime() - amount * unitMs[relativeMatch[2].toLowerCase()]);
+  }
+
+  if (lower === "yesterday" || lower === "today") {
+    return new Date(now.getTime() - unitMs.day);
+  }
+
+  const date = new Date(timeStr);
+  if (!isNaN(date.getTime())) {
+    return date;
+  }
+
+  const unixSeconds = parseFloat(timeStr);
+  if (!isNaN(unixSeconds) && unixSeconds > 0 && unixSeconds > 946684800) {
+    return new Date(unixSeconds * 1000);
+  }
+
+  throw new Error(
+    `Invalid time format: ${timeStr}. Use ISO 8601, relative time (e.g., '1 hour ago'), or Unix timestamp.`
+  );
+}
+
+/**
+ * Converts a timestamp returned by Logflare (microseconds or a timestamp
+ * string) to milliseconds.
+ */
+export function timestampToMs(value: unknown): number {
+  if (typeof value === "number") {
+    return Math.floor(value / 1000);
+  }
+  return new Date(String(value)).getTime();
+}
+
 /**
  * Parses time range string to hours.
  */
@@ -109,3 +171,17 @@ export function analyzeFieldStructure(
   return fieldAnalysis;
 }
 
+/**
+ * Quotes a BigQuery identifier with backticks, escaping characters that
+ * would otherwise terminate it.
+ */
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/\\/g, "\\\\").replace(/`/g, "\\`")}\``;
+}
+
+/**
+ * Identifies an API key in stores and caches without keeping the key itself.
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { ResponseCache } from "../src/cache.js";
+import { QUERY_CACHE_TTL_MS, RELATIVE_QUERY_CACHE_TTL_MS } from "../src/config.js";
+import { LogflareClient } from "../src/logflare.js";
+
+let now = 0;
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+/**
+ * Counts calls to a loader that resolves with the call number.
+ */
+function counter(): { load: () => Promise<number>; calls: () => number } {
+  let calls = 0;
+  return { load: async () => ++calls, calls: () => calls };
+}
+
+describe("ResponseCache", () => {
+  it("shares one load between concurrent callers", async () => {
+    const cache = new ResponseCache(1000);
+    let resolve: (value: number[]) => void = () => undefined;
+    const load = mock.fn(() => new Promise<number[]>((r) => (resolve = r)));
+
+    const waiters = [cache.get("key", 1000, load), cache.get("key", 1000, load)];
+    resolve([1]);
+    const [first, second] = await Promise.all(waiters);
+
+    assert.equal(load.mock.callCount(), 1);
+    assert.deepEqual([first, second], [[1], [1]]);
+    assert.notEqual(first, second);
+  });
+
+  it("rejects every waiter when the shared load fails, and loads again next time", async () => {
+    const cache = new ResponseCache(1000);
+    const load = mock.fn(async () => {
+      throw new Error("upstream failed");
+    });
+
+    const results = await Promise.allSettled([cache.get("key", 1000, load), cache.get("key", 1000, load)]);
+    assert.equal(load.mock.callCount(), 1);
+    assert.deepEqual(
+      results.map((result) => result.status === "rejected" && (result.reason as Error).message),
+      ["upstream failed", "upstream failed"]
+    );
+
+    assert.equal(await cache.get("key", 1000, async () => 2), 2);
+  });
+
+  it("reloads when bypassed and keeps the fresh value", async () => {
+    const cache = new ResponseCache(1000);
+    const { load, calls } = counter();
+
+    assert.equal(await cache.get("key", 1000, load), 1);
+    assert.equal(await cache.get("key", 1000, load), 1);
+    assert.equal(await cache.get("key", 1000, load, true), 2);
+    assert.equal(await cache.get("key", 1000, load), 2);
+    assert.equal(calls(), 2);
+  });
+
+  it("expires entries after their TTL", async () => {
+    mock.method(Date, "now", () => now);
+    const cache = new ResponseCache(1000);
+    const { load } = counter();
+
+    now = 0;
+    assert.equal(await cache.get("key", 1000, load), 1);
+    now = 999;
+    assert.equal(await cache.get("key", 1000, load), 1);
+    now = 1000;
+    assert.equal(await cache.get("key", 1000, load), 2);
+  });
+});
+
+describe("LogflareClient caching", () => {
+  /**
+   * Runs a query at each time and returns how many requests reached the API.
+   */
+  async function requestsAt(sql: string, times: number[]): Promise<number> {
+    mock.method(Date, "now", () => now);
+    const fetch = mock.method(globalThis, "fetch", async () => Response.json({ result: [] }));
+    const client = new LogflareClient({ apiKey: "key" }, { cache: new ResponseCache(1000) });
+
+    for (const time of times) {
+      now = time;
+      await client.executeQuery(sql, "token");
+    }
+    return fetch.mock.callCount();
+  }
+
+  it("caches queries relative to the current time only briefly", async () => {
+    const sql = "SELECT id FROM `my-source` WHERE timestamp > TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 1 HOUR)";
+    assert.equal(await requestsAt(sql, [0, RELATIVE_QUERY_CACHE_TTL_MS - 1]), 1);
+    mock.restoreAll();
+    assert.equal(await requestsAt(sql, [0, RELATIVE_QUERY_CACHE_TTL_MS]), 2);
+  });
+
+  it("caches queries over a fixed window for longer", async () => {
+    const sql = "SELECT id FROM `my-source` WHERE timestamp > TIMESTAMP('2024-01-01')";
+    assert.equal(await requestsAt(sql, [0, RELATIVE_QUERY_CACHE_TTL_MS, QUERY_CACHE_TTL_MS - 1]), 1);
+    mock.restoreAll();
+    assert.equal(await requestsAt(sql, [0, QUERY_CACHE_TTL_MS]), 2);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyPage, decodeCursor, encodeCursor, keysetCondition, readPage } from "../src/cursor.js";
+import { QueryBuilder } from "../src/queryBuilder.js";
+import { PageRequest } from "../src/types.js";
+
+const rows = [
+  { timestamp: 1, id: "a" },
+  { timestamp: 1, id: "b" },
+  { timestamp: 2, id: "c" },
+];
+
+function pagedSql(page: PageRequest): string {
+  return applyPage(QueryBuilder.from("my-source"), page).build();
+}
+
+describe("keysetCondition", () => {
+  it("breaks timestamp ties by id in the sort direction", () => {
+    assert.equal(
+      keysetCondition({ timestamp: 5, id: "a", direction: "forward" }, "ASC").text,
+      "timestamp > TIMESTAMP_MICROS(5) OR (timestamp = TIMESTAMP_MICROS(5) AND id > 'a')"
+    );
+    assert.equal(
+      keysetCondition({ timestamp: 5, id: "it's", direction: "forward" }, "DESC").text,
+      "timestamp < TIMESTAMP_MICROS(5) OR (timestamp = TIMESTAMP_MICROS(5) AND id < 'it\\'s')"
+    );
+  });
+
+  it("compares the timestamp alone without an id", () => {
+    assert.equal(
+      keysetCondition({ timestamp: 5, id: null, direction: "forward" }, "DESC").text,
+      "timestamp < TIMESTAMP_MICROS(5)"
+    );
+  });
+});
+
+describe("applyPage", () => {
+  it("orders by timestamp and id and fetches one extra row", () => {
+    assert.match(pagedSql({ order: "ASC", pageSize: 2, hasId: true }), /\nORDER BY timestamp ASC, id ASC\nLIMIT 3$/);
+    assert.doesNotMatch(pagedSql({ order: "ASC", pageSize: 2, hasId: true }), /WHERE/);
+  });
+
+  it("orders by timestamp alone without an id", () => {
+    assert.match(pagedSql({ order: "DESC", pageSize: 2, hasId: false }), /\nORDER BY timestamp DESC\nLIMIT 3$/);
+  });
+
+  it("continues after a forward cursor", () => {
+    const cursor = encodeCursor({ timestamp: 5, id: "a", direction: "forward" });
+    assert.match(
+      pagedSql({ cursor, order: "DESC", pageSize: 2, hasId: true }),
+      /WHERE \(timestamp < TIMESTAMP_MICROS\(5\) OR \(timestamp = TIMESTAMP_MICROS\(5\) AND id < 'a'\)\)\nORDER BY timestamp DESC, id DESC/
+    );
+  });
+
+  it("reverses the order for a backward cursor", () => {
+    const cursor = encodeCursor({ timestamp: 5, id: null, direction: "backward" });
+    assert.match(
+      pagedSql({ cursor, order: "DESC", pageSize: 2, hasId: false }),
+      /WHERE \(timestamp > TIMESTAMP_MICROS\(5\)\)\nORDER BY timestamp ASC\n/
+    );
+  });
+});
+
+describe("readPage", () => {
+  it("trims the extra row and points the next cursor at the last row kept", () => {
+    const page = readPage([...rows], { order: "ASC", pageSize: 2, hasId: true });
+    assert.deepEqual(page.rows, rows.slice(0, 2));
+    assert.deepEqual(decodeCursor(page.nextCursor ?? ""), { timestamp: 1, id: "b", direction: "forward" });
+    assert.equal(page.previousCursor, null);
+  });
+
+  it("leaves the id out of cursors when the page is not ordered by it", () => {
+    const page = readPage([...rows], { order: "ASC", pageSize: 2, hasId: false });
+    assert.deepEqual(decodeCursor(page.nextCursor ?? ""), { timestamp: 1, id: null, direction: "forward" });
+  });
+
+  it("has no next cursor on the last page", () => {
+    const page = readPage(rows.slice(0, 2), { order: "ASC", pageSize: 2, hasId: true });
+    assert.equal(page.nextCursor, null);
+  });
+
+  it("flips a backward page and links both ways", () => {
+    const cursor = encodeCursor({ timestamp: 3, id: null, direction: "backward" });
+    // Queried in reverse order by applyPage.
+    const page = readPage([rows[2], rows[1], rows[0]], { cursor, order: "ASC", pageSize: 2, hasId: true });
+    assert.deepEqual(page.rows, [rows[1], rows[2]]);
+    assert.deepEqual(decodeCursor(page.nextCursor ?? ""), { timestamp: 2, id: "c", direction: "forward" });
+    assert.deepEqual(decodeCursor(page.previousCursor ?? ""), { timestamp: 1, id: "b", direction: "backward" });
+  });
+
+  it("rejects a malformed cursor", () => {
+    assert.throws(() => readPage([], { cursor: "not-a-cursor", order: "ASC", pageSize: 2, hasId: true }), /Invalid cursor/);
+  });
+});
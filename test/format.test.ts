@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatOutput } from "../src/format.js";
+
+const result = { count: 2, logs: [{ id: "a" }, { id: "b" }], nextCursor: null };
+
+describe("formatOutput", () => {
+  it("keeps the rows in place in JSON", () => {
+    assert.deepEqual(Object.keys(JSON.parse(formatOutput(result, {}, "logs"))), ["count", "logs", "nextCursor"]);
+  });
+
+  it("writes the other fields as a JSON Lines header without the rows key", () => {
+    assert.equal(
+      formatOutput(result, { format: "jsonl" }, "logs"),
+      ['{"count":2,"nextCursor":null}', '{"id":"a"}', '{"id":"b"}'].join("\n")
+    );
+  });
+
+  it("writes rows of a bare array as JSON Lines without a header", () => {
+    assert.equal(formatOutput(result.logs, { format: "jsonl" }), '{"id":"a"}\n{"id":"b"}');
+  });
+
+  it("renders CSV after commented fields", () => {
+    assert.equal(formatOutput(result, { format: "csv" }, "logs"), "# count: 2\n# nextCursor: null\nid\na\nb");
+  });
+
+  it("clears nextCursor when rows are dropped", () => {
+    const logs = Array.from({ length: 50 }, (_, i) => ({ id: `row-${i}`, event_message: "x".repeat(90) }));
+    const text = formatOutput({ logs, nextCursor: "abc" }, { maxChars: 1000 }, "logs");
+    const [json, marker] = text.split("\n…");
+    const parsed = JSON.parse(json);
+    assert.ok(parsed.logs.length > 0 && parsed.logs.length < 50);
+    assert.equal(parsed.nextCursor, null);
+    assert.match(marker, /rows omitted .* nextCursor was cleared/);
+  });
+
+  it("keeps JSON well-formed when the fields alone exceed maxChars", () => {
+    const text = formatOutput({ count: 1, fields: Array.from({ length: 500 }, (_, i) => i) }, { maxChars: 1000 });
+    assert.ok(text.length <= 1000);
+    assert.deepEqual(JSON.parse(text), { count: 1, fields: "[truncated: 1891 chars to fit maxChars 1000]" });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { column, literal, nestedFieldCondition, sql } from "../src/queryBuilder.js";
+import { quoteIdentifier } from "../src/utils.js";
+
+describe("literal", () => {
+  it("escapes quotes, backslashes and line breaks in strings", () => {
+    assert.equal(literal("it's").text, "'it\\'s'");
+    assert.equal(literal("C:\\temp\\").text, "'C:\\\\temp\\\\'");
+    assert.equal(literal("\\' OR TRUE --").text, "'\\\\\\' OR TRUE --'");
+    assert.equal(literal("a\nb\rc").text, "'a\\nb\\rc'");
+  });
+
+  it("renders other values", () => {
+    assert.equal(literal(null).text, "NULL");
+    assert.equal(literal(true).text, "TRUE");
+    assert.equal(literal(-1.5).text, "-1.5");
+    assert.equal(literal(new Date("2024-01-01T00:00:00Z")).text, "TIMESTAMP('2024-01-01T00:00:00.000Z')");
+  });
+
+  it("rejects values that have no literal", () => {
+    assert.throws(() => literal(NaN), /Cannot use NaN/);
+    assert.throws(() => literal(Infinity), /Cannot use Infinity/);
+    assert.throws(() => literal(new Date("nope")), /invalid date/);
+  });
+});
+
+describe("quoteIdentifier", () => {
+  it("escapes backticks and backslashes", () => {
+    assert.equal(quoteIdentifier("my-source"), "`my-source`");
+    assert.equal(quoteIdentifier("a`b"), "`a\\`b`");
+    assert.equal(quoteIdentifier("a\\`; DROP"), "`a\\\\\\`; DROP`");
+  });
+
+  it("quotes reserved or unusual column segments only", () => {
+    assert.equal(column("metadata.request.status").text, "metadata.request.status");
+    assert.equal(column("metadata.group.x-y").text, "metadata.`group`.`x-y`");
+  });
+});
+
+describe("nestedFieldCondition", () => {
+  it("uses a top-level field directly", () => {
+    assert.equal(nestedFieldCondition("level", (field) => sql`${field} = ${"error"}`).text, "level = 'error'");
+  });
+
+  it("unnests each level of a nested path", () => {
+    assert.equal(
+      nestedFieldCondition("metadata.request.status", (field) => sql`${field} = ${500}`).text,
+      "EXISTS(SELECT 1 FROM UNNEST(metadata) AS _n0, UNNEST(_n0.request) AS _n1 WHERE _n1.status = 500)"
+    );
+  });
+
+  it("quotes path segments and escapes values", () => {
+    assert.equal(
+      nestedFieldCondition("metadata.us`er", (field) => sql`${field} = ${"o'neil"}`).text,
+      "EXISTS(SELECT 1 FROM UNNEST(metadata) AS _n0 WHERE _n0.`us\\`er` = 'o\\'neil')"
+    );
+  });
+
+  it("rejects empty path segments", () => {
+    assert.throws(() => nestedFieldCondition("metadata..status", (field) => field), /Invalid field path/);
+  });
+});
@@ -0,0 +1,85 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineSavedQuery, JsonFileSavedQueryStore, renderSavedQuery } from "../src/savedQueries.js";
+import { SavedQuery } from "../src/types.js";
+
+const SQL = "SELECT id FROM `my-source` WHERE timestamp > {{since}} AND level = {{level}}";
+
+function savedQuery(name: string): SavedQuery {
+  return {
+    name,
+    sql: SQL,
+    parameters: defineSavedQuery(name, SQL, { since: { type: "timestamp" } }),
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  };
+}
+
+describe("defineSavedQuery", () => {
+  it("declares undeclared placeholders as strings", () => {
+    assert.deepEqual(defineSavedQuery("errors", SQL, { since: { type: "timestamp" } }), {
+      since: { type: "timestamp" },
+      level: { type: "string" },
+    });
+  });
+
+  it("ignores names inherited from Object.prototype", () => {
+    assert.deepEqual(defineSavedQuery("q", "SELECT {{constructor}}"), { constructor: { type: "string" } });
+  });
+
+  it("rejects invalid and reserved names", () => {
+    assert.throws(() => defineSavedQuery("no spaces", SQL), /Invalid query name/);
+    assert.throws(() => defineSavedQuery("__proto__", SQL), /reserved/);
+  });
+});
+
+describe("renderSavedQuery", () => {
+  it("substitutes escaped values", () => {
+    assert.equal(
+      renderSavedQuery(savedQuery("errors"), { since: "now", level: "error" }),
+      "SELECT id FROM `my-source` WHERE timestamp > CURRENT_TIMESTAMP() AND level = 'error'"
+    );
+  });
+
+  it("rejects unknown and missing values", () => {
+    assert.throws(() => renderSavedQuery(savedQuery("errors"), { toString: "x" }), /Unknown parameters 'toString'/);
+    assert.throws(() => renderSavedQuery(savedQuery("errors"), { level: "x" }), /Missing values for 'since'/);
+  });
+});
+
+describe("JsonFileSavedQueryStore", async () => {
+  const directory = await mkdtemp(join(tmpdir(), "saved-queries-"));
+  const store = new JsonFileSavedQueryStore(join(directory, "nested", "saved-queries.json"));
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("keeps each owner's queries apart", async () => {
+    await store.save("alice", savedQuery("errors"));
+    await store.save("alice", savedQuery("slow"));
+    assert.deepEqual(
+      (await store.list("alice")).map((query) => query.name),
+      ["errors", "slow"]
+    );
+    assert.deepEqual(await store.list("bob"), []);
+    assert.equal(await store.get("bob", "errors"), undefined);
+  });
+
+  it("only finds queries that were saved", async () => {
+    for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      assert.equal(await store.get("alice", name), undefined);
+      assert.equal(await store.delete("alice", name), false);
+    }
+    assert.equal(await store.get("constructor", "errors"), undefined);
+  });
+
+  it("deletes a query", async () => {
+    assert.equal(await store.delete("alice", "errors"), true);
+    assert.equal(await store.get("alice", "errors"), undefined);
+    assert.equal(await store.delete("alice", "errors"), false);
+  });
+});
@@ -0,0 +1,270 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import net from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { RedisClient, RedisReplyError } from "../src/redis.js";
+import { InMemorySessionStore, RedisSessionStore } from "../src/sessionStore.js";
+import { SessionManager, restoreTransportSession } from "../src/sessions.js";
+
+const TIMEOUTS = { connectMs: 200, commandMs: 200 };
+
+const bulk = (value: string | null) => (value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+const array = (items: Array<string | null>) => `*${items.length}\r\n${items.map(bulk).join("")}`;
+
+/**
+ * A local stand-in for Redis implementing the commands the session store
+ * uses, without expiry. `override` can answer a command with raw RESP
+ * instead, or with "" to never answer it.
+ */
+class FakeRedis {
+  readonly strings = new Map<string, string>();
+  readonly sets = new Map<string, Set<string>>();
+  override: ((args: string[]) => string | undefined) | null = null;
+  private readonly server = net.createServer((socket) => this.accept(socket));
+  private readonly sockets = new Set<net.Socket>();
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `redis://127.0.0.1:${(this.server.address() as net.AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on("close", () => this.sockets.delete(socket));
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (;;) {
+        const parsed = parseCommand(buffer);
+        if (!parsed) {
+          return;
+        }
+        buffer = buffer.slice(parsed.end);
+        const reply = this.override?.(parsed.args) ?? this.execute(parsed.args);
+        socket.write(reply);
+        if (parsed.args[0] === "QUIT") {
+          socket.end();
+        }
+      }
+    });
+  }
+
+  private execute([name, ...args]: string[]): string {
+    const members = (key: string) => this.sets.get(key) ?? new Set<string>();
+    switch (name) {
+      case "SET":
+        this.strings.set(args[0], args[1]);
+        return "+OK\r\n";
+      case "GET":
+        return bulk(this.strings.get(args[0]) ?? null);
+      case "MGET":
+        return array(args.map((key) => this.strings.get(key) ?? null));
+      case "DEL":
+        return `:${this.strings.delete(args[0]) ? 1 : 0}\r\n`;
+      case "SADD":
+        this.sets.set(args[0], new Set([...members(args[0]), ...args.slice(1)]));
+        return `:${args.length - 1}\r\n`;
+      case "SREM":
+        args.slice(1).forEach((member) => members(args[0]).delete(member));
+        return `:${args.length - 1}\r\n`;
+      case "SMEMBERS":
+        return array(Array.from(members(args[0])));
+      case "SCAN": {
+        const prefix = args[2].replace(/\*$/, "");
+        const keys = Array.from(this.strings.keys()).filter((key) => key.startsWith(prefix));
+        return `*2\r\n${bulk("0")}${array(keys)}`;
+      }
+      case "PEXPIRE":
+        return ":1\r\n";
+      case "AUTH":
+      case "SELECT":
+      case "QUIT":
+        return "+OK\r\n";
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+}
+
+/**
+ * Parses one command sent as an array of bulk strings.
+ */
+function parseCommand(buffer: string): { args: string[]; end: number } | null {
+  const match = /^\*(\d+)\r\n/.exec(buffer);
+  if (!match) {
+    return null;
+  }
+  const args: string[] = [];
+  let offset = match[0].length;
+  for (let i = 0; i < Number(match[1]); i++) {
+    const header = /^\$(\d+)\r\n/.exec(buffer.slice(offset));
+    if (!header) {
+      return null;
+    }
+    const start = offset + header[0].length;
+    const end = start + Number(header[1]);
+    if (buffer.length < end + 2) {
+      return null;
+    }
+    args.push(buffer.slice(start, end));
+    offset = end + 2;
+  }
+  return { args, end: offset };
+}
+
+function fakeTransport(sessionId: string): StreamableHTTPServerTransport {
+  return { sessionId, close: async () => undefined } as unknown as StreamableHTTPServerTransport;
+}
+
+describe("RedisClient", () => {
+  const redis = new FakeRedis();
+  let url = "";
+  let client: RedisClient;
+
+  before(async () => {
+    url = await redis.start();
+  });
+
+  beforeEach(() => {
+    redis.override = null;
+    client = new RedisClient(url, TIMEOUTS);
+  });
+
+  after(async () => {
+    await redis.stop();
+  });
+
+  it("sends commands and parses their replies", async () => {
+    assert.equal(await client.command("SET", "key", "value"), "OK");
+    assert.equal(await client.command("GET", "key"), "value");
+    assert.equal(await client.command("GET", "missing"), null);
+    assert.deepEqual(await client.command("MGET", "key", "missing"), ["value", null]);
+    assert.equal(await client.command("SADD", "set", "a", "b"), 2);
+  });
+
+  it("rejects an error reply", async () => {
+    await assert.rejects(client.command("NOPE"), RedisReplyError);
+    assert.equal(await client.command("GET", "key"), "value");
+  });
+
+  it("reads an array holding an error in full before the next reply", async () => {
+    redis.override = ([name]) => (name === "EXEC" ? "*3\r\n:1\r\n-ERR failed\r\n$2\r\nok\r\n" : undefined);
+    const [exec, next] = await Promise.allSettled([client.command("EXEC"), client.command("GET", "key")]);
+    assert.equal(exec.status, "rejected");
+    assert.deepEqual(next, { status: "fulfilled", value: "value" });
+  });
+
+  it("drops the connection on a malformed reply without throwing", async () => {
+    redis.override = ([name]) => (name === "PING" ? "!bad\r\n" : undefined);
+    await assert.rejects(client.command("PING"), /Unexpected Redis reply type/);
+    assert.equal(await client.command("GET", "key"), "value");
+  });
+
+  it("times out a command without a reply and reconnects", async () => {
+    redis.override = ([name]) => (name === "BLPOP" ? "" : undefined);
+    await assert.rejects(client.command("BLPOP", "queue", 0), /timed out after 200 ms/);
+    assert.equal(await client.command("GET", "key"), "value");
+  });
+
+  it("times out a connection that never completes", async () => {
+    // The plain TCP server never answers the TLS handshake.
+    const tlsClient = new RedisClient(url.replace("redis:", "rediss:"), TIMEOUTS);
+    await assert.rejects(tlsClient.command("GET", "key"), /connection to .* timed out after 200 ms/);
+  });
+});
+
+describe("SessionManager with RedisSessionStore", () => {
+  const redis = new FakeRedis();
+  let store: RedisSessionStore;
+
+  before(async () => {
+    store = new RedisSessionStore(new RedisClient(await redis.start(), TIMEOUTS), 60000);
+  });
+
+  after(async () => {
+    await redis.stop();
+  });
+
+  it("shares session records and counts them per owner", async () => {
+    const sessions = new SessionManager(store, 60000, 2);
+    const server = {} as McpServer;
+
+    await sessions.add({ server, transport: fakeTransport("s1"), owner: "alice" });
+    await sessions.add({ server, transport: fakeTransport("s2"), owner: "alice" });
+    await sessions.add({ server, transport: fakeTransport("s3"), owner: "bob" });
+
+    assert.equal((await sessions.lookup("s1"))?.owner, "alice");
+    assert.equal(await sessions.hasCapacity("alice"), false);
+    assert.equal(await sessions.hasCapacity("bob"), true);
+    assert.deepEqual(
+      (await sessions.list()).map((record) => [record.id, record.local]),
+      [
+        ["s1", true],
+        ["s2", true],
+        ["s3", true],
+      ]
+    );
+
+    await sessions.remove("s1");
+    assert.equal(await sessions.lookup("s1"), undefined);
+    assert.equal(await sessions.hasCapacity("alice"), true);
+
+    // Streamable HTTP records outlive a drain, for another instance to pick up.
+    await sessions.drain();
+    assert.deepEqual(
+      (await sessions.list()).map((record) => [record.id, record.local]),
+      [
+        ["s2", false],
+        ["s3", false],
+      ]
+    );
+  });
+
+  it("prunes owners' ids of expired records when counting", async () => {
+    redis.sets.set("logflare-mcp:owner:carol", new Set(["gone"]));
+    assert.equal(await store.countByOwner("carol"), 0);
+    assert.deepEqual(Array.from(redis.sets.get("logflare-mcp:owner:carol") ?? []), []);
+  });
+
+  it("fails requests in time when Redis hangs", async () => {
+    redis.override = () => "";
+    const sessions = new SessionManager(store, 60000, 2);
+    await assert.rejects(sessions.hasCapacity("alice"), /timed out/);
+    redis.override = null;
+    assert.equal(await sessions.hasCapacity("alice"), true);
+  });
+});
+
+describe("SessionManager", () => {
+  it("closes and forgets a session once it times out", async () => {
+    const sessions = new SessionManager(new InMemorySessionStore(60000), 20, 1);
+    let closed = false;
+    const transport = { sessionId: "s1", close: async () => void (closed = true) } as unknown as StreamableHTTPServerTransport;
+
+    await sessions.add({ server: {} as McpServer, transport, owner: "alice" });
+    assert.equal(await sessions.hasCapacity("alice"), false);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(closed, true);
+    assert.equal(await sessions.lookup("s1"), undefined);
+    assert.equal(await sessions.hasCapacity("alice"), true);
+  });
+});
+
+describe("restoreTransportSession", () => {
+  it("adopts the session id", () => {
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => "unused" });
+    restoreTransportSession(transport, "s1");
+    assert.equal(transport.sessionId, "s1");
+  });
+
+  it("fails loudly if the SDK's internals are not there", () => {
+    assert.throws(() => restoreTransportSession(fakeTransport("s1"), "s2"), /internals have changed/);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { enforceQueryPolicy } from "../src/sqlGuard.js";
+import { QueryRejectedError } from "../src/errors.js";
+import { QueryPolicy } from "../src/types.js";
+
+const policy: QueryPolicy = {
+  allowedTables: ["my-source", "other-source", "my-project.dataset.events"],
+  maxLimit: 1000,
+  requireTimestampFilter: true,
+};
+
+const RECENT = "timestamp > TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL 1 HOUR)";
+
+/**
+ * Returns the violation codes of a rejected query, or an empty list if it is accepted.
+ */
+function violations(sql: string): string[] {
+  try {
+    enforceQueryPolicy(sql, policy);
+    return [];
+  } catch (error: unknown) {
+    if (error instanceof QueryRejectedError) {
+      return error.violations.map((violation) => violation.code);
+    }
+    throw error;
+  }
+}
+
+describe("enforceQueryPolicy", () => {
+  const accepted: Array<[string, string]> = [
+    ["a plain timestamp bound", `SELECT event_message FROM \`my-source\` WHERE ${RECENT}`],
+    ["a bound ANDed with other conditions", `SELECT id FROM \`my-source\` WHERE level = 'error' AND ${RECENT}`],
+    ["a parenthesized AND group", `SELECT id FROM \`my-source\` WHERE (level = 'error' AND ${RECENT}) AND id > 'a'`],
+    ["an OR nested below a top-level bound", `SELECT id FROM \`my-source\` WHERE ${RECENT} AND (level = 'a' OR level = 'b')`],
+    ["BETWEEN", "SELECT id FROM `my-source` WHERE timestamp BETWEEN TIMESTAMP('2024-01-01') AND TIMESTAMP('2024-01-02')"],
+    ["a wrapped column", "SELECT id FROM `my-source` WHERE DATE(timestamp) = '2024-01-01'"],
+    ["a qualified column", `SELECT t.id FROM \`my-source\` AS t WHERE t.${RECENT}`],
+    ["a CTE used in a subquery", `WITH recent AS (SELECT id FROM \`my-source\` WHERE ${RECENT}) SELECT * FROM (SELECT id FROM recent)`],
+    ["a CTE", `WITH recent AS (SELECT id, level FROM \`my-source\` WHERE ${RECENT}) SELECT level, COUNT(*) FROM recent GROUP BY level`],
+    ["UNNEST", `SELECT m.user_id FROM \`my-source\` t CROSS JOIN UNNEST(t.metadata) AS m WHERE t.${RECENT}`],
+    ["EXTRACT(... FROM ...)", `SELECT EXTRACT(HOUR FROM timestamp) AS hour FROM \`my-source\` WHERE ${RECENT}`],
+    ["UNION ALL with both branches bounded", `SELECT id FROM \`my-source\` WHERE ${RECENT} UNION ALL SELECT id FROM \`other-source\` WHERE ${RECENT}`],
+    ["comments", `-- DELETE FROM x\nSELECT id /* FROM unknown */ FROM \`my-source\` # OR TRUE\nWHERE ${RECENT}`],
+    ["a dashed unquoted project path", `SELECT id FROM my-project.dataset.events WHERE ${RECENT}`],
+    [
+      "a join with each table bounded",
+      `SELECT a.id FROM \`my-source\` a JOIN \`other-source\` b ON a.id = b.id WHERE a.${RECENT} AND b.${RECENT}`,
+    ],
+    ["BETWEEN ANDed with other conditions", "SELECT id FROM `my-source` WHERE level = 'x' AND timestamp BETWEEN 1 AND 2"],
+  ];
+
+  for (const [name, sql] of accepted) {
+    it(`accepts ${name}`, () => {
+      assert.deepEqual(violations(sql), []);
+    });
+  }
+
+  const rejected: Array<[string, string, string]> = [
+    ["a bound ORed with TRUE", "SELECT id FROM `my-source` WHERE timestamp > 1 OR TRUE", "missing_timestamp_filter"],
+    ["TRUE ORed with a bound", "SELECT id FROM `my-source` WHERE TRUE OR timestamp > 1", "missing_timestamp_filter"],
+    ["an OR inside a parenthesized group", "SELECT id FROM `my-source` WHERE (timestamp > 1 OR TRUE)", "missing_timestamp_filter"],
+    ["a negated group", "SELECT id FROM `my-source` WHERE NOT (timestamp > 1 AND level = 'x')", "missing_timestamp_filter"],
+    ["a bound only inside a subquery", "SELECT id FROM `my-source` WHERE id IN (SELECT id FROM `other-source` WHERE timestamp > 1)", "missing_timestamp_filter"],
+    ["a negated bound", "SELECT id FROM `my-source` WHERE NOT timestamp > 1", "missing_timestamp_filter"],
+    ["a negated bound ANDed with others", "SELECT id FROM `my-source` WHERE level = 'x' AND NOT timestamp < 1", "missing_timestamp_filter"],
+    ["!=", "SELECT id FROM `my-source` WHERE timestamp != 1", "missing_timestamp_filter"],
+    ["<>", "SELECT id FROM `my-source` WHERE timestamp <> 1", "missing_timestamp_filter"],
+    ["a nested field named timestamp", "SELECT id FROM `my-source` WHERE metadata.timestamp > 1", "missing_timestamp_filter"],
+    [
+      "a join with one table bounded",
+      `SELECT a.id FROM \`my-source\` a JOIN \`other-source\` b ON a.id = b.id WHERE a.${RECENT}`,
+      "missing_timestamp_filter",
+    ],
+    [
+      "a join with an unqualified bound",
+      `SELECT a.id FROM \`my-source\` a JOIN \`other-source\` b ON a.id = b.id WHERE ${RECENT}`,
+      "missing_timestamp_filter",
+    ],
+    ["a bound only inside a CASE", "SELECT id FROM `my-source` WHERE CASE WHEN timestamp > 1 THEN TRUE ELSE TRUE END", "missing_timestamp_filter"],
+    ["no WHERE clause", "SELECT id FROM `my-source`", "missing_timestamp_filter"],
+    ["an unbounded CTE", "WITH all_rows AS (SELECT id FROM `my-source`) SELECT id FROM all_rows", "missing_timestamp_filter"],
+    [
+      "a table named like a CTE of a subquery",
+      "SELECT * FROM (WITH secret AS (SELECT 1 AS timestamp) SELECT * FROM secret WHERE timestamp > 1), secret",
+      "unknown_table",
+    ],
+    ["an unbounded UNION branch", `SELECT id FROM \`my-source\` WHERE ${RECENT} UNION ALL SELECT id FROM \`other-source\``, "missing_timestamp_filter"],
+    ["an unknown table", `SELECT id FROM \`secret-source\` WHERE ${RECENT}`, "unknown_table"],
+    ["DML", "DELETE FROM `my-source` WHERE timestamp > 1", "not_select"],
+    ["several statements", `SELECT id FROM \`my-source\` WHERE ${RECENT}; SELECT 1`, "multiple_statements"],
+    ["an unterminated string", "SELECT id FROM `my-source` WHERE level = 'x", "parse_error"],
+    ["a non-literal LIMIT", `SELECT id FROM \`my-source\` WHERE ${RECENT} LIMIT @n`, "limit_not_literal"],
+  ];
+
+  for (const [name, sql, code] of rejected) {
+    it(`rejects ${name}`, () => {
+      assert.ok(violations(sql).includes(code), `expected ${code}, got ${JSON.stringify(violations(sql))}`);
+    });
+  }
+
+  it("adds a LIMIT when missing", () => {
+    const checked = enforceQueryPolicy(`SELECT id FROM \`my-source\` WHERE ${RECENT}`, policy);
+    assert.match(checked.sql, /\nLIMIT 1000$/);
+    assert.deepEqual(checked.adjustments, ["No LIMIT given; LIMIT 1000 was added."]);
+  });
+
+  it("reduces a LIMIT over the maximum", () => {
+    const checked = enforceQueryPolicy(`SELECT id FROM \`my-source\` WHERE ${RECENT} LIMIT 5000`, policy);
+    assert.match(checked.sql, /LIMIT 1000$/);
+    assert.deepEqual(checked.adjustments, ["LIMIT 5000 exceeds the maximum; reduced to 1000."]);
+  });
+
+  it("keeps a LIMIT within the maximum and ignores nested ones", () => {
+    const sql = `SELECT id FROM (SELECT id FROM \`my-source\` WHERE ${RECENT} LIMIT 5000) LIMIT 10`;
+    const checked = enforceQueryPolicy(sql, policy);
+    assert.equal(checked.sql, sql);
+    assert.deepEqual(checked.adjustments, []);
+  });
+
+  it("leaves a missing LIMIT to paged callers", () => {
+    const sql = `SELECT id FROM \`my-source\` WHERE ${RECENT}`;
+    const checked = enforceQueryPolicy(sql, { ...policy, addLimit: false });
+    assert.equal(checked.sql, sql);
+    assert.equal(checked.limited, false);
+  });
+
+  it("reports whether the statement is limited and ordered", () => {
+    const unordered = enforceQueryPolicy(`SELECT id FROM \`my-source\` WHERE ${RECENT} LIMIT 10`, policy);
+    assert.deepEqual([unordered.limited, unordered.ordered], [true, false]);
+    const ordered = enforceQueryPolicy(
+      `SELECT id FROM (SELECT id FROM \`my-source\` WHERE ${RECENT} ORDER BY id) ORDER BY id DESC LIMIT 10`,
+      policy
+    );
+    assert.deepEqual([ordered.limited, ordered.ordered], [true, true]);
+  });
+
+  it("reports the tables read and the projection", () => {
+    const checked = enforceQueryPolicy(`SELECT timestamp, event_message AS msg FROM \`my-source\` WHERE ${RECENT}`, policy);
+    assert.deepEqual(checked.tables, ["my-source"]);
+    assert.deepEqual(
+      checked.projection.map((item) => item.outputName),
+      ["timestamp", "msg"]
+    );
+  });
+});